@@ -0,0 +1,103 @@
+// src/agent.test.ts
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { runAgent } from './agent.js';
+import { createScriptedProvider } from './providers/scripted.js';
+import { registerTestRunner } from './runners/index.js';
+import { TddAiConfig } from './utils/config.js';
+import { TestRunOutput, TestResults } from './types.js';
+
+// Passes once math.ts adds, so a run shows whether the proposed edits were applied
+registerTestRunner({
+  name: 'adds',
+  async detect() {
+    return false;
+  },
+  async run({ projectPath }): Promise<TestRunOutput> {
+    const code = await fs.readFile(path.join(projectPath, 'math.ts'), 'utf-8');
+    return { stdout: String(code.includes('a + b')), stderr: '', exitCode: 0 };
+  },
+  parse(output: TestRunOutput): TestResults {
+    const success = output.stdout === 'true';
+    return {
+      files: [{ file: 'math.test.ts', success, tests: [{ name: 'adds', success, error: success ? undefined : 'expected 3, got -1' }] }],
+      summary: { total: 1, passed: success ? 1 : 0, failed: success ? 0 : 1, duration: 0 },
+    };
+  },
+});
+
+describe('runAgent', () => {
+  let root: string;
+  let projectPath: string;
+
+  beforeAll(async () => {
+    root = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'tdd-ai-agent-')));
+    projectPath = path.join(root, 'project');
+    await fs.mkdir(projectPath);
+    await fs.writeFile(path.join(projectPath, 'math.ts'), 'export const add = (a: number, b: number) => a - b;\n');
+    await fs.writeFile(path.join(projectPath, 'math.test.ts'), '');
+    // A link inside the project to files outside it
+    await fs.mkdir(path.join(root, 'outside'));
+    await fs.writeFile(path.join(root, 'outside', 'secret.txt'), 'secret');
+    await fs.symlink(path.join(root, 'outside'), path.join(projectPath, 'linked'), 'dir');
+  });
+
+  afterAll(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('runs scripted tool calls, keeping them inside the project', async () => {
+    const config = {
+      ai: {
+        provider: 'scripted',
+        model: 'scripted',
+        temperature: 0.2,
+        timeout: 1000,
+        script: {
+          onExhausted: 'error',
+          agentActions: [
+            { tool: 'list_directory', args: { path: '.' } },
+            { tool: 'read_file', args: { path: 'linked/secret.txt' } },
+            { tool: 'propose_edit', args: { path: 'linked/math.ts', content: 'escaped' } },
+            { tool: 'propose_edit', args: { path: 'math.ts', search: 'a - b', replace: 'a + b' } },
+            { tool: 'run_tests', args: {} },
+            { tool: 'done', args: { summary: 'Add instead of subtracting' } },
+          ],
+        },
+      },
+      testRunner: { adapter: 'adds', timeout: 1000 },
+      agent: { enabled: true },
+    } as TddAiConfig;
+    const implementationPath = path.join(projectPath, 'math.ts');
+
+    const result = await runAgent(await createScriptedProvider(config), 'Make the tests pass', {
+      testResults: { file: 'math.test.ts', success: false, tests: [] },
+      testCode: '',
+      testFilePath: path.join(projectPath, 'math.test.ts'),
+      implementationPath,
+      projectPath,
+    }, config);
+
+    expect(result.toolCalls?.map(call => [call.tool, call.error ? 'error' : call.output])).toEqual([
+      ['list_directory', 'linked\nmath.test.ts\nmath.ts'],
+      ['read_file', 'error'],
+      ['propose_edit', 'error'],
+      ['propose_edit', 'Edited math.ts'],
+      ['run_tests', '1/1 tests passing'],
+      ['done', 'Add instead of subtracting'],
+    ]);
+    expect(result.toolCalls?.[1].error).toMatch(/outside the project/);
+    expect(result).toMatchObject({
+      success: true,
+      code: 'export const add = (a: number, b: number) => a + b;\n',
+      files: [{ path: implementationPath, action: 'modify' }],
+      reasoning: 'Add instead of subtracting',
+    });
+
+    // Edits reach the project only through the returned changes
+    expect(await fs.readFile(implementationPath, 'utf-8')).toContain('a - b');
+    expect(await fs.readdir(path.join(root, 'outside'))).toEqual(['secret.txt']);
+  });
+});
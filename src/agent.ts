@@ -0,0 +1,268 @@
+// src/agent.ts
+import fs from 'fs/promises';
+import path from 'path';
+import { runTests } from './test-runner.js';
+import { logger } from './utils/logger.js';
+import { TddAiConfig } from './utils/config.js';
+import { applySearchReplaceEdits } from './utils/apply-edits.js';
+import { resolveInsideProject, applyFileChanges, snapshotFiles, restoreSnapshot } from './utils/file-changes.js';
+import { AiProviderError } from './providers/errors.js';
+import { AiProvider, AiMessage, GenerateOptions, GenerateResult, FileChange, ToolCallRecord } from './types.js';
+
+const DEFAULT_MAX_STEPS = 10;
+// Longest tool output passed back to the model, and kept in the attempt history
+const MAX_TOOL_OUTPUT = 20000;
+const MAX_RECORDED_OUTPUT = 500;
+const IGNORED_ENTRIES = new Set(['node_modules', '.git']);
+
+const AGENT_SYSTEM_PROMPT = `You are an expert programmer making failing tests pass. You work in steps, calling one tool per step.
+Reply with a single JSON object and nothing else:
+
+{"thought": "why you are calling this tool", "tool": "<tool name>", "args": { ... }}
+
+Tools:
+- read_file {"path": string} - read a file in the project
+- list_directory {"path": string} - list a directory in the project ("." for the root)
+- propose_edit {"path": string, "content": string} - replace a file's complete content, or create it
+- propose_edit {"path": string, "search": string, "replace": string} - replace one exact, unique piece of a file
+- run_tests {} - run the failing test file with your proposed edits applied
+- done {"summary": string} - finish; your proposed edits are applied to the project
+
+Paths are relative to the project root and must stay inside it. Proposed edits only reach the project when you call done.
+Run the tests before calling done, and call done once they pass or you cannot make further progress.`;
+
+interface AgentAction {
+  thought?: string;
+  tool?: string;
+  args?: Record<string, unknown>;
+}
+
+interface AgentContext {
+  projectPath: string;
+  config: TddAiConfig;
+  testFilePath?: string;
+  // Proposed file contents by absolute path
+  edits: Map<string, string>;
+}
+
+/**
+ * Lets the model work towards passing tests with tools, one call per step, until it
+ * calls done or the step budget in config.agent.maxSteps runs out.
+ * Proposed edits are kept in memory and returned as file changes for the caller to apply.
+ * @param provider - AI provider
+ * @param taskPrompt - Description of the failing tests and the current code
+ * @param options - Generation options; projectPath is required
+ * @param config - Application configuration
+ */
+export async function runAgent(
+  provider: AiProvider,
+  taskPrompt: string,
+  options: GenerateOptions,
+  config: TddAiConfig
+): Promise<GenerateResult> {
+  const { projectPath, testFilePath, implementationPath, signal, onToolCall, model = config.ai.model } = options;
+  const maxSteps = config.agent?.maxSteps || DEFAULT_MAX_STEPS;
+
+  if (!projectPath) {
+    return { success: false, error: 'Agent mode needs the project path' };
+  }
+
+  const context: AgentContext = { projectPath, config, testFilePath, edits: new Map() };
+  const toolCalls: ToolCallRecord[] = [];
+  const messages: AiMessage[] = [{ role: 'user', content: taskPrompt }];
+  let summary: string | undefined;
+
+  for (let step = 1; step <= maxSteps; step++) {
+    if (signal?.aborted) {
+      return { success: false, error: 'Generation was cancelled', toolCalls };
+    }
+
+    let action: AgentAction;
+    try {
+      const reply = await provider.completeJson<AgentAction>({
+        system: AGENT_SYSTEM_PROMPT,
+        messages,
+        model,
+        temperature: config.ai.temperature,
+        maxTokens: config.ai.maxTokens,
+        signal,
+        purpose: 'agent',
+      });
+      messages.push({ role: 'assistant', content: reply.text });
+      action = reply.data || {};
+    } catch (error) {
+      if (error instanceof AiProviderError && error.type === 'invalid_response') {
+        logger.warn(`Agent step ${step}: reply was not a JSON tool call`);
+        messages.push({ role: 'assistant', content: '(invalid reply)' });
+        messages.push({ role: 'user', content: 'Your reply was not a valid JSON tool call. Reply with exactly one JSON object as described.' });
+        continue;
+      }
+      throw error;
+    }
+
+    const tool = action.tool || '';
+    const args = action.args && typeof action.args === 'object' ? action.args : {};
+
+    if (tool === 'done') {
+      summary = typeof args.summary === 'string' ? args.summary : undefined;
+      record(toolCalls, { step, tool, args, output: summary || '' }, onToolCall);
+      logger.info(`Agent finished after ${step} steps${summary ? `: ${summary}` : ''}`);
+      break;
+    }
+
+    let output: string;
+    let error: string | undefined;
+    try {
+      output = await executeTool(tool, args, context);
+    } catch (toolError) {
+      error = toolError instanceof Error ? toolError.message : String(toolError);
+      output = `Error: ${error}`;
+    }
+
+    if (output.length > MAX_TOOL_OUTPUT) {
+      output = `${output.substring(0, MAX_TOOL_OUTPUT)}\n... (truncated)`;
+    }
+
+    logger.info(`Agent step ${step}: ${tool} ${JSON.stringify(args.path ?? '')}${error ? ` failed: ${error}` : ''}`);
+    record(toolCalls, { step, tool, args: summarizeArgs(args), output, error }, onToolCall);
+    messages.push({ role: 'user', content: `Result of ${tool}:\n${output}` });
+
+    if (step === maxSteps) {
+      logger.warn(`Agent used all ${maxSteps} steps without calling done`);
+    }
+  }
+
+  if (context.edits.size === 0) {
+    return { success: false, error: 'Agent finished without proposing any changes', toolCalls };
+  }
+
+  const files = await toFileChanges(context.edits);
+
+  return {
+    success: true,
+    code: context.edits.get(path.resolve(implementationPath)),
+    files,
+    reasoning: summary,
+    toolCalls,
+  };
+}
+
+/**
+ * Runs one tool call against the project
+ * @returns The output shown to the model
+ * @throws Error for unknown tools, invalid arguments and paths outside the project
+ */
+async function executeTool(tool: string, args: Record<string, unknown>, context: AgentContext): Promise<string> {
+  switch (tool) {
+    case 'read_file': {
+      const filePath = await resolvePath(context, args.path);
+      return context.edits.get(filePath) ?? await fs.readFile(filePath, 'utf-8');
+    }
+
+    case 'list_directory': {
+      const dirPath = !args.path || args.path === '.' ? path.resolve(context.projectPath) : await resolvePath(context, args.path);
+      const entries = await fs.readdir(dirPath, { withFileTypes: true });
+      return entries
+        .filter(entry => !IGNORED_ENTRIES.has(entry.name))
+        .map(entry => entry.isDirectory() ? `${entry.name}/` : entry.name)
+        .sort()
+        .join('\n') || '(empty directory)';
+    }
+
+    case 'propose_edit': {
+      const filePath = await resolvePath(context, args.path);
+
+      if (typeof args.content === 'string') {
+        context.edits.set(filePath, args.content);
+        return `Proposed new content for ${args.path} (${args.content.length} characters)`;
+      }
+
+      if (typeof args.search !== 'string' || typeof args.replace !== 'string') {
+        throw new Error('propose_edit needs either content, or search and replace');
+      }
+
+      const current = context.edits.get(filePath) ?? await fs.readFile(filePath, 'utf-8').catch(() => '');
+      const result = applySearchReplaceEdits(current, [{ search: args.search, replace: args.replace }]);
+      if (!result.success) {
+        throw new Error(result.failures.map(failure => failure.reason).join('; '));
+      }
+
+      context.edits.set(filePath, result.content);
+      return `Edited ${args.path}`;
+    }
+
+    case 'run_tests':
+      return runTestsWithEdits(context);
+
+    default:
+      throw new Error(`Unknown tool: ${tool || '(none)'}`);
+  }
+}
+
+/**
+ * Applies the proposed edits, runs the failing test file and restores the original files
+ */
+async function runTestsWithEdits(context: AgentContext): Promise<string> {
+  if (!context.testFilePath) {
+    throw new Error('No test file to run');
+  }
+
+  const changes = await toFileChanges(context.edits);
+  const snapshot = await snapshotFiles(changes.map(change => change.path));
+
+  try {
+    const applied = await applyFileChanges(changes);
+    if (!applied.success) {
+      throw new Error(`Could not apply the proposed edits: ${applied.error}`);
+    }
+
+    const testResults = await runTests({ projectPath: context.projectPath, files: [context.testFilePath] }, context.config);
+    if (!testResults.results) {
+      return `Tests could not run: ${testResults.error || 'no results'}`;
+    }
+
+    const { summary } = testResults.results;
+    const failures = testResults.results.files
+      .flatMap(file => file.tests)
+      .filter(test => !test.success)
+      .map(test => `- ${test.name}: ${test.error || 'Unknown error'}`);
+
+    return `${summary.passed}/${summary.total} tests passing${failures.length > 0 ? `\n\nFailures:\n${failures.join('\n')}` : ''}`;
+  } finally {
+    await restoreSnapshot(snapshot);
+  }
+}
+
+async function resolvePath(context: AgentContext, filePath: unknown): Promise<string> {
+  if (typeof filePath !== 'string' || filePath.trim() === '') {
+    throw new Error('A path is required');
+  }
+  return resolveInsideProject(context.projectPath, filePath);
+}
+
+async function toFileChanges(edits: Map<string, string>): Promise<FileChange[]> {
+  return Promise.all(Array.from(edits.entries()).map(async ([filePath, content]) => ({
+    path: filePath,
+    action: await fs.access(filePath).then(() => 'modify' as const, () => 'create' as const),
+    content,
+  })));
+}
+
+/**
+ * Shortens long argument values, such as complete file contents, for the history
+ */
+function summarizeArgs(args: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(args).map(([key, value]) => [
+    key,
+    typeof value === 'string' && value.length > MAX_RECORDED_OUTPUT ? `${value.substring(0, MAX_RECORDED_OUTPUT)}... (${value.length} characters)` : value,
+  ]));
+}
+
+function record(toolCalls: ToolCallRecord[], call: ToolCallRecord, onToolCall?: (call: ToolCallRecord) => void): void {
+  const recorded = {
+    ...call,
+    output: call.output.length > MAX_RECORDED_OUTPUT ? `${call.output.substring(0, MAX_RECORDED_OUTPUT)}...` : call.output,
+  };
+  toolCalls.push(recorded);
+  onToolCall?.(recorded);
+}
@@ -0,0 +1,94 @@
+// src/ai-service.test.ts
+import { describe, it, expect, beforeEach } from 'vitest';
+import { buildGenerationPrompt, generateImplementation, initializeAI } from './ai-service.js';
+import { estimateTokens } from './providers/helpers.js';
+import { loadConfig, TddAiConfig } from './utils/config.js';
+import { getPromptTokenBudget } from './utils/model-info.js';
+import { logger } from './utils/logger.js';
+import { GenerateOptions } from './types.js';
+
+const OPTIONS: GenerateOptions = {
+  testResults: { file: 'math.test.ts', success: false, tests: [{ name: 'adds', success: false, error: 'expected 3, got -1' }] },
+  testCode: "it('adds', () => expect(add(1, 2)).toBe(3));",
+  implementationPath: '/project/math.ts',
+};
+
+describe('buildGenerationPrompt', () => {
+  let config: TddAiConfig;
+
+  beforeEach(async () => {
+    logger.configure({ level: 'error' });
+    config = await loadConfig({ aiProvider: 'scripted', logLevel: 'error' });
+    config.ai.maxTokens = 100;
+  });
+
+  // Attempts of about 2000 tokens each; attempt 2 passed the most tests
+  function makeAttempts(count: number): NonNullable<GenerateOptions['previousAttempts']> {
+    return Array.from({ length: count }, (_, index) => ({
+      attempt: index + 1,
+      implementation: `// attempt ${index + 1}\n${'x'.repeat(8000)}`,
+      testResults: { passingTests: index === 1 ? 3 : 1, failingTests: 1 },
+    }));
+  }
+
+  async function buildWithin(contextWindow: number, previousAttempts: ReturnType<typeof makeAttempts>): Promise<string> {
+    config.ai.contextWindow = contextWindow;
+    const { system, prompt } = await buildGenerationPrompt({ ...OPTIONS, previousAttempts }, config);
+
+    expect(estimateTokens(prompt)).toBeLessThanOrEqual(getPromptTokenBudget(config.ai.model, config, estimateTokens(system)));
+    return prompt;
+  }
+
+  // Each attempt in full (F), summarized to its results (S) or omitted (O)
+  function detailOf(prompt: string, attempts: number): string {
+    return Array.from({ length: attempts }, (_, index) => {
+      if (prompt.includes(`// attempt ${index + 1}\n`)) return 'F';
+      return prompt.includes(`### Attempt ${index + 1}:`) ? 'S' : 'O';
+    }).join('');
+  }
+
+  it('includes every previous attempt in full when they fit', async () => {
+    const prompt = await buildWithin(100_000, makeAttempts(4));
+
+    expect(detailOf(prompt, 4)).toBe('FFFF');
+  });
+
+  it('keeps the best and latest attempts in full when the context window is short', async () => {
+    const prompt = await buildWithin(6000, makeAttempts(4));
+
+    expect(detailOf(prompt, 4)).toBe('SFSF');
+  });
+
+  it('omits the oldest attempts that do not fit even as summaries', async () => {
+    const prompt = await buildWithin(1500, makeAttempts(60));
+    const detail = detailOf(prompt, 60);
+
+    // The best attempt keeps its place among the latest ones
+    expect(detail).toMatch(/^OSO+S+$/);
+    expect(prompt).toContain(`(${detail.split('O').length - 1} older attempts omitted to fit the context window)`);
+  });
+});
+
+describe('generateImplementation', () => {
+  it('returns the explanation apart from the code', async () => {
+    logger.configure({ level: 'error' });
+    const config = await loadConfig({ aiProvider: 'scripted', logLevel: 'error' });
+    config.ai.script = {
+      implementations: [[
+        '--- EXPLANATION ---',
+        'Add the numbers instead of subtracting them.',
+        '--- END EXPLANATION ---',
+        'export const add = (a: number, b: number) => a + b;',
+      ].join('\n')],
+    };
+    await initializeAI(config);
+
+    const result = await generateImplementation(OPTIONS, config);
+
+    expect(result).toMatchObject({
+      success: true,
+      reasoning: 'Add the numbers instead of subtracting them.',
+      code: 'export const add = (a: number, b: number) => a + b;',
+    });
+  });
+});
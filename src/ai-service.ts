@@ -1,41 +1,142 @@
 // src/ai-service.ts
-import { OpenAI } from 'openai';
 import fs from 'fs/promises';
 import path from 'path';
-import { GenerateOptions, GenerateResult, ApplyCodeOptions } from './types.js';
+import { GenerateOptions, GenerateResult, ApplyCodeOptions, AiProvider, AiCompletionResult, FileChange, EditSummary, RetryInfo, DeadCodeOptions } from './types.js';
 import { logger } from './utils/logger.js';
 import { TddAiConfig } from './utils/config.js';
+import { createProvider, loadProviderModules, AiProviderError } from './providers/index.js';
+import { RecordingProvider, ReplayProvider } from './providers/cassette.js';
+import { UsageTrackingProvider } from './providers/usage-tracking.js';
+import { RetryingProvider, getRetryPolicy } from './providers/retry.js';
+import { CachingProvider } from './providers/cache.js';
+import { createResponseCache } from './utils/response-cache.js';
+import { UsageTracker } from './utils/usage.js';
+import { parseSearchReplaceBlocks, applySearchReplaceEdits } from './utils/apply-edits.js';
+import { parseFileSections, resolveInsideProject, FileSection } from './utils/file-changes.js';
+import { getPromptTokenBudget } from './utils/model-info.js';
+import { loadPromptTemplates, renderTemplate, PromptTemplates } from './utils/prompt-templates.js';
+import { estimateTokens } from './providers/helpers.js';
+import { collectDependencyContext } from './utils/context-collector.js';
+import { runAgent } from './agent.js';
 
-// OpenAI client instance
-let openai: OpenAI;
+const FULL_REWRITE_SYSTEM_PROMPT = "You are an expert programmer tasked with implementing code to make failing tests pass. After the explanation section, respond only with valid code that could be inserted directly into the implementation file. Do not include markdown code blocks or anything else that isn't code for the implementation.";
+
+const EDITS_SYSTEM_PROMPT = `You are an expert programmer tasked with changing existing code to make failing tests pass. After the explanation section, respond only with search/replace blocks in this exact format:
+
+<<<<<<< SEARCH
+exact lines copied from the current implementation
+=======
+the lines that replace them
+>>>>>>> REPLACE
+
+Each SEARCH section must match the current implementation exactly and uniquely. Use an empty SEARCH section to append code to the end of the file. Use as many blocks as needed and leave unrelated code untouched. Do not include anything else outside the explanation and the blocks.`;
+
+const MULTI_FILE_SYSTEM_PROMPT = `You are an expert programmer tasked with implementing code to make failing tests pass. The change may span several files. After the explanation section, respond only with file sections in this exact format:
+
+--- FILE: path/relative/to/project/root.ts ---
+complete content of the file
+--- END FILE ---
+
+Include one section for every file you create or change, and no section for files you leave untouched. Paths must be relative to the project root and stay inside it. Do not include anything else outside the explanation and the sections.`;
+
+const MULTI_FILE_EDITS_SUFFIX = `
+
+For files that already exist, put search/replace blocks inside the file section instead of the complete content:
+
+<<<<<<< SEARCH
+exact lines copied from the current file
+=======
+the lines that replace them
+>>>>>>> REPLACE
+
+Each SEARCH section must match the current file exactly and uniquely.`;
+
+// Appended to every generation system prompt so the model's intent is captured separately from the code
+const EXPLANATION_SUFFIX = `
+
+Begin your response with a short explanation of your plan in this exact format:
+
+--- EXPLANATION ---
+one to three sentences on what you are changing and why
+--- END EXPLANATION ---`;
+
+// System prompt for trimming code that coverage shows no test runs
+const DEAD_CODE_SYSTEM_PROMPT = "You are an expert programmer removing code that no test needs from an implementation whose tests all pass. Remove only code the tests never run and that nothing else could reach, such as unused helpers, impossible branches and leftover fallbacks. Keep every export the tests use and keep the behavior the tests check. After the explanation section, respond only with the complete new implementation file, without markdown code blocks.";
+
+const EXPLANATION_REGEX = /^\s*---\s*EXPLANATION\s*---[ \t]*\r?\n([\s\S]*?)\r?\n[ \t]*---\s*END EXPLANATION\s*---[ \t]*(?:\r?\n|$)/i;
+
+interface PromptBudget {
+  tokens: number;
+  countTokens: (text: string) => number;
+}
+
+// 'agent' describes the task for agent mode, which has its own system prompt and reply format
+type PromptOutputFormat = 'full' | 'edits' | 'agent';
+
+interface PreparedPrompt {
+  useEdits: boolean;
+  multiFileRoot?: string;
+  system: string;
+  prompt: string;
+  // Builds the prompts again for another output format, e.g. complete files when edits don't apply
+  build: (outputFormat: PromptOutputFormat, multiFile: boolean) => { system: string; prompt: string };
+}
+
+// Minimum time between streamed progress reports
+const PROGRESS_INTERVAL_MS = 250;
+
+// Active AI provider
+let provider: AiProvider | null = null;
+
+interface InitializeAiOptions {
+  // Project the response cache lives in, the current directory by default
+  projectPath?: string;
+  // Records the token usage of every call
+  usageTracker?: UsageTracker;
+  // Called before a failed request is retried
+  onRetry?: (info: RetryInfo) => void;
+}
 
 /**
- * Initialize the AI client based on configuration
+ * Initialize the AI provider based on configuration
  * @param config The application configuration
- * @returns The initialized AI client
+ * @param options Usage tracking and retry notifications
+ * @returns The initialized AI provider
  */
-export function initializeAI(config: TddAiConfig): OpenAI {
+export async function initializeAI(config: TddAiConfig, options: InitializeAiOptions = {}): Promise<AiProvider> {
+  const { projectPath = '.', usageTracker, onRetry } = options;
+
   try {
-    if (config.ai.provider === 'openai') {
-      openai = new OpenAI({
-        apiKey: config.ai.apiKey,
-        baseURL: config.ai.apiEndpoint,
-        timeout: config.ai.timeout,
-      });
-      logger.debug('OpenAI client initialized');
-      return openai;
-    } else if (config.ai.provider === 'anthropic') {
-      // Would add Anthropic client initialization here
-      // For now, just throw an error
-      throw new Error('Anthropic support not yet implemented');
-    } else if (config.ai.provider === 'local') {
-      // Would add local LLM initialization here
-      throw new Error('Local LLM support not yet implemented');
+    const cassette = config.ai.cassette;
+
+    if (cassette?.mode === 'replay') {
+      // Replay never touches the configured provider, so no credentials are needed
+      provider = new ReplayProvider(cassette.dir, config.ai.model);
     } else {
-      throw new Error(`Unknown AI provider: ${config.ai.provider}`);
+      await loadProviderModules(config);
+      provider = await createProvider(config);
+
+      if (cassette?.mode === 'record') {
+        provider = new RecordingProvider(provider, cassette.dir);
+      }
     }
+
+    provider = new RetryingProvider(provider, getRetryPolicy(config), onRetry);
+
+    if (usageTracker) {
+      provider = new UsageTrackingProvider(provider, usageTracker);
+    }
+
+    // Outermost, so cached responses skip retries and aren't counted as usage
+    const cache = createResponseCache(config, projectPath);
+    if (cache) {
+      provider = new CachingProvider(provider, cache, config.ai.temperature);
+    }
+
+    logger.debug(`AI provider initialized: ${provider.name} (${provider.model})`);
+    return provider;
   } catch (error) {
-    logger.error('Failed to initialize AI client:', error);
+    logger.error('Failed to initialize AI provider:', error);
     throw new Error(`AI initialization error: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
@@ -55,7 +156,10 @@ export async function generateImplementation(
     testCode,
     implementationPath,
     currentImplementation = '',
-    previousAttempts = []
+    previousAttempts = [],
+    onProgress,
+    signal,
+    model = config.ai.model
   } = options;
 
   logger.info(`Generating implementation for ${implementationPath}`);
@@ -97,142 +201,606 @@ export async function generateImplementation(
     logger.info(`Including ${previousAttempts.length} previous attempts in the context`);
   }
 
-  // Format the test failures for better AI context
-  const formattedFailures = failingTests.map(test => ({
-    name: test.name,
-    error: test.error,
-    code: test.code,
-  }));
+  if (!provider) {
+    logger.error('AI provider not initialized');
+    return {
+      success: false,
+      error: 'AI provider not initialized. Call initializeAI first.'
+    };
+  }
 
-  logger.debug('Formatted failing tests:', JSON.stringify(formattedFailures, null, 2));
+  const activeProvider = provider;
+  let prepared: PreparedPrompt;
+  try {
+    prepared = await preparePrompt(options, config, (text) => activeProvider.countTokens(text));
+  } catch (error) {
+    logger.error('Error building the prompt:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+  const { useEdits, multiFileRoot } = prepared;
 
-  // Create prompt for the AI
-  const prompt = buildPrompt({
-    testCode,
-    failingTests: formattedFailures,
-    currentImplementation,
-    implementationPath,
-    previousAttempts
-  });
+  // Set up controller for caller cancellation; request timeouts are applied per call by RetryingProvider
+  const controller = new AbortController();
 
-  logger.debug(`Generated prompt (${prompt.length} characters)`);
+  const onAbort = (): void => {
+    logger.info('Generation cancelled');
+    controller.abort();
+  };
+  if (signal?.aborted) {
+    controller.abort();
+  } else {
+    signal?.addEventListener('abort', onAbort);
+  }
 
   try {
     // Call AI API
-    logger.info('Calling OpenAI API to generate implementation...');
+    logger.info(`Calling ${provider.name} (${model}) to generate implementation${useEdits ? ' edits' : ''}...`);
 
-    // Verify API key presence
-    if (!process.env.OPENAI_API_KEY) {
-      logger.error('No OpenAI API key found in environment variables');
-      return {
-        success: false,
-        error: 'OPENAI_API_KEY environment variable is not set'
-      };
-    }
+    // The model's stated plan; a fallback request replaces it with the plan for the new response
+    let explanation: string | undefined;
+
+    // The latest response, discarded when it turns out to be unusable so a cache won't serve it again
+    let lastResponse: AiCompletionResult | undefined;
+    const discardLastResponse = async (): Promise<void> => {
+      if (lastResponse) {
+        await provider!.discard?.(lastResponse);
+      }
+    };
 
-    // Set up controller for request timeout
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => {
-      logger.warn('OpenAI API call is taking too long, aborting...');
-      controller.abort();
-    }, config.ai.timeout || 60000);
+    // Records the explanation and returns the rest of the response
+    const takeExplanation = (text: string): string => {
+      const parsed = parseExplanation(text);
+      if (parsed.explanation) {
+        explanation = parsed.explanation;
+        logger.info(`AI plan: ${explanation}`);
+      } else {
+        logger.debug('AI response has no explanation section');
+      }
+      return parsed.body;
+    };
 
-    try {
-      const response = await openai.chat.completions.create({
-        model: config.ai.model || "gpt-4-turbo",
+    // Requests code and returns the response without its explanation section
+    const requestCode = async (systemPrompt: string, userPrompt: string): Promise<string> => {
+      const request = {
+        system: systemPrompt,
         messages: [
           {
-            role: "system",
-            content: "You are an expert programmer tasked with implementing code to make failing tests pass. Respond only with valid code that could be inserted directly into the implementation file. Do not include markdown code blocks, explanations, or anything else that isn't code for the implementation."
-          },
-          {
-            role: "user",
-            content: prompt
+            role: 'user' as const,
+            content: userPrompt
           }
         ],
-        temperature: config.ai.temperature || 0.2,
-      }, { signal: controller.signal });
+        model,
+        temperature: config.ai.temperature,
+        maxTokens: config.ai.maxTokens,
+        signal: controller.signal,
+        purpose: 'generation',
+        variant: options.candidate,
+      };
+
+      if (!config.ai.stream) {
+        const response = await provider!.complete(request);
+        lastResponse = response;
+        logger.info(`Received response from ${provider!.name}`);
+        return takeExplanation(response.text);
+      }
+
+      // Stream the response, reporting progress at most a few times per second
+      let streamed = '';
+      let lastReport = 0;
+      const report = (): void => {
+        onProgress?.({
+          characters: streamed.length,
+          tokens: provider!.countTokens(streamed),
+          preview: streamed.slice(-200),
+        });
+      };
+
+      const response = await provider!.stream(request, (delta) => {
+        streamed += delta;
+        const now = Date.now();
+        if (now - lastReport >= PROGRESS_INTERVAL_MS) {
+          lastReport = now;
+          report();
+        }
+      });
+      report();
+      lastResponse = response;
+
+      logger.info(`Received streamed response from ${provider!.name} (${response.text.length} characters)`);
+      return takeExplanation(response.text);
+    };
+
+    let responseText = await requestCode(prepared.system, prepared.prompt);
+    let edits: GenerateResult['edits'];
+
+    if (multiFileRoot) {
+      const sections = parseFileSections(responseText);
+
+      if (sections.length > 0) {
+        let resolved = await resolveFileSections(sections, multiFileRoot);
 
-      clearTimeout(timeoutId);
+        if (!resolved.success && resolved.edits?.fellBackToFullRewrite) {
+          logger.warn('Some edits did not apply cleanly, requesting complete files instead');
+          await discardLastResponse();
+          const fullFiles = prepared.build('full', true);
+          responseText = await requestCode(fullFiles.system, fullFiles.prompt);
+          const retried = await resolveFileSections(parseFileSections(responseText), multiFileRoot);
+          resolved = { ...retried, edits: resolved.edits };
+        }
+
+        if (!resolved.success || !resolved.files) {
+          logger.error(`Invalid multi-file response: ${resolved.error}`);
+          await discardLastResponse();
+          return {
+            success: false,
+            error: resolved.error || 'AI returned no usable file sections'
+          };
+        }
 
-      logger.info('Received response from OpenAI');
+        const primary = resolved.files.find(file => file.path === implementationPath);
+        logger.info(`AI changed ${resolved.files.length} files${primary ? '' : ' (implementation file unchanged)'}`);
 
-      if (!response.choices || response.choices.length === 0) {
-        logger.error('OpenAI returned empty response');
         return {
-          success: false,
-          error: 'AI returned empty response'
+          success: true,
+          code: primary?.content,
+          files: resolved.files,
+          reasoning: explanation,
+          edits: resolved.edits,
         };
       }
 
-      const generatedCode = response.choices[0].message.content?.trim() || '';
+      logger.warn('AI response contained no file sections, treating it as the implementation file only');
+    }
 
-      // Clean up the code - remove any Markdown code fence markers
-      const cleanedCode = removeMarkdownFormatting(generatedCode);
+    if (useEdits) {
+      const parsedEdits = parseSearchReplaceBlocks(responseText);
 
-      if (!cleanedCode) {
-        logger.error('OpenAI returned empty code after cleaning');
-        return {
-          success: false,
-          error: 'AI returned empty code'
+      if (parsedEdits.length === 0) {
+        // The model ignored the edit format; treat the reply as a whole file
+        logger.warn('AI response contained no search/replace blocks, treating it as a full rewrite');
+        edits = { requested: 0, applied: 0, failures: [], fellBackToFullRewrite: true };
+      } else {
+        const applied = applySearchReplaceEdits(currentImplementation, parsedEdits);
+        edits = {
+          requested: parsedEdits.length,
+          applied: applied.applied,
+          failures: applied.failures.map(({ search, reason }) => ({ search, reason })),
+          fellBackToFullRewrite: !applied.success,
         };
+
+        if (applied.success) {
+          logger.info(`Applied ${applied.applied} edits to the current implementation`);
+          logger.debug(`Edited code preview: ${applied.content.substring(0, 300)}${applied.content.length > 300 ? '...' : ''}`);
+
+          return {
+            success: true,
+            code: applied.content,
+            reasoning: explanation,
+            edits,
+          };
+        }
+
+        logger.warn(`${applied.failures.length} of ${parsedEdits.length} edits did not apply cleanly, requesting a full rewrite instead`);
+        await discardLastResponse();
+        const fullRewrite = prepared.build('full', false);
+        responseText = await requestCode(fullRewrite.system, fullRewrite.prompt);
       }
+    }
 
-      logger.debug(`Generated code length: ${cleanedCode.length} characters`);
-      logger.debug(`Generated code preview: ${cleanedCode.substring(0, 300)}${cleanedCode.length > 300 ? '...' : ''}`);
+    const generatedCode = responseText.trim();
 
+    if (!generatedCode) {
+      logger.error(`${provider.name} returned empty response`);
+      await discardLastResponse();
       return {
-        success: true,
-        code: cleanedCode,
-        reasoning: response.choices[0].message.content || '',
+        success: false,
+        error: 'AI returned empty response'
       };
-    } finally {
-      clearTimeout(timeoutId);
     }
-  } catch (error) {
-    logger.error('Error generating implementation with OpenAI:', error);
 
-    // Handle abort error separately
-    if (error instanceof Error && error.name === 'AbortError') {
+    // Clean up the code - remove any Markdown code fence markers
+    const cleanedCode = removeMarkdownFormatting(generatedCode);
+
+    if (!cleanedCode) {
+      logger.error(`${provider.name} returned empty code after cleaning`);
+      await discardLastResponse();
       return {
         success: false,
-        error: 'OpenAI API request timed out. Try increasing the timeout value in your configuration.'
+        error: 'AI returned empty code'
       };
     }
 
-    // Handle common API errors
-    if (error instanceof Error) {
-      if (error.message.includes('API key')) {
-        return {
-          success: false,
-          error: 'Invalid or missing OpenAI API key'
-        };
-      }
+    logger.debug(`Generated code length: ${cleanedCode.length} characters`);
+    logger.debug(`Generated code preview: ${cleanedCode.substring(0, 300)}${cleanedCode.length > 300 ? '...' : ''}`);
 
-      if (error.message.includes('rate limit')) {
-        return {
-          success: false,
-          error: 'OpenAI API rate limit exceeded. Please try again later.'
-        };
-      }
+    return {
+      success: true,
+      code: cleanedCode,
+      reasoning: explanation,
+      edits,
+    };
+  } catch (error) {
+    if (error instanceof AiProviderError && error.type === 'aborted') {
+      logger.info(`Generation with ${provider.name} was cancelled`);
+    } else {
+      logger.error(`Error generating implementation with ${provider.name}:`, error);
+    }
+
+    if (error instanceof AiProviderError) {
+      return {
+        success: false,
+        error: describeProviderError(error),
+      };
     }
 
     return {
       success: false,
       error: error instanceof Error ? error.message : String(error),
     };
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * Generate code in agent mode: the model explores the project and proposes edits through tools
+ * @param options - Generation options
+ * @param config - Application configuration
+ * @returns Promise with the proposed file changes and the tool calls that led to them
+ */
+export async function generateWithAgent(
+  options: GenerateOptions,
+  config: TddAiConfig
+): Promise<GenerateResult> {
+  if (!provider) {
+    logger.error('AI provider not initialized');
+    return {
+      success: false,
+      error: 'AI provider not initialized. Call initializeAI first.'
+    };
+  }
+
+  const activeProvider = provider;
+
+  try {
+    const prepared = await preparePrompt(options, config, (text) => activeProvider.countTokens(text));
+    const { prompt } = prepared.build('agent', false);
+
+    logger.info(`Starting ${activeProvider.name} agent for ${options.implementationPath}...`);
+    return await runAgent(activeProvider, prompt, options, config);
+  } catch (error) {
+    if (error instanceof AiProviderError && error.type === 'aborted') {
+      logger.info(`Agent run with ${activeProvider.name} was cancelled`);
+    } else {
+      logger.error(`Error running the ${activeProvider.name} agent:`, error);
+    }
+
+    return {
+      success: false,
+      error: error instanceof AiProviderError
+        ? describeProviderError(error)
+        : error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Asks the model to remove code that coverage shows no test runs
+ * @param options - The implementation, its tests and their coverage
+ * @param config - Application configuration
+ * @returns Promise with the trimmed implementation
+ */
+export async function removeDeadCode(options: DeadCodeOptions, config: TddAiConfig): Promise<GenerateResult> {
+  const { implementationPath, implementation, testCode, coverage, model = config.ai.model, signal } = options;
+
+  if (!provider) {
+    logger.error('AI provider not initialized');
+    return {
+      success: false,
+      error: 'AI provider not initialized. Call initializeAI first.'
+    };
+  }
+
+  const language = /\.tsx?$/.test(implementationPath) ? 'typescript' : 'javascript';
+  const sourceLines = implementation.split('\n');
+  const listLines = (lines: number[]): string => lines
+    .map(line => `${line}: ${sourceLines[line - 1]?.trim() ?? ''}`)
+    .join('\n');
+
+  const prompt = `All tests pass, but they don't run every part of the implementation in ${path.basename(implementationPath)} (${coverage.linePercent}% of lines, ${coverage.branchPercent}% of branches).
+
+## Test Code:
+\`\`\`${language}
+${testCode}
+\`\`\`
+
+## Implementation:
+\`\`\`${language}
+${implementation}
+\`\`\`
+${coverage.uncoveredLines.length > 0 ? `
+## Lines no test runs:
+${listLines(coverage.uncoveredLines)}
+` : ''}${coverage.uncoveredBranchLines.length > 0 ? `
+## Lines with a branch no test takes:
+${listLines(coverage.uncoveredBranchLines)}
+` : ''}
+Remove the code no test requires and return the complete implementation file. If all of it is needed, return the implementation unchanged.`;
+
+  try {
+    logger.info(`Calling ${provider.name} (${model}) to remove dead code from ${implementationPath}...`);
+    const response = await provider.complete({
+      system: DEAD_CODE_SYSTEM_PROMPT + EXPLANATION_SUFFIX,
+      messages: [{ role: 'user', content: prompt }],
+      model,
+      temperature: config.ai.temperature,
+      maxTokens: config.ai.maxTokens,
+      signal,
+      purpose: 'dead_code',
+    });
+
+    const { explanation, body } = parseExplanation(response.text);
+    const code = removeMarkdownFormatting(body.trim());
+    if (!code) {
+      await provider.discard?.(response);
+      return {
+        success: false,
+        error: 'AI returned empty code'
+      };
+    }
+
+    return {
+      success: true,
+      code,
+      reasoning: explanation,
+    };
+  } catch (error) {
+    logger.error(`Error removing dead code with ${provider.name}:`, error);
+    return {
+      success: false,
+      error: error instanceof AiProviderError
+        ? describeProviderError(error)
+        : error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Builds the prompts a generation would send, without calling the model
+ * @param options - Generation options
+ * @param config - Application configuration
+ * @returns The system prompt and user prompt
+ */
+export async function buildGenerationPrompt(
+  options: GenerateOptions,
+  config: TddAiConfig
+): Promise<{ system: string; prompt: string }> {
+  const activeProvider = provider;
+  const prepared = await preparePrompt(
+    options,
+    config,
+    (text) => activeProvider ? activeProvider.countTokens(text) : estimateTokens(text)
+  );
+  return { system: prepared.system, prompt: prepared.prompt };
+}
+
+/**
+ * Loads the prompt templates and builds the prompts for a generation
+ * @param options - Generation options
+ * @param config - Application configuration
+ * @param countTokens - Token counter used to fit the prompt into the context window
+ */
+async function preparePrompt(
+  options: GenerateOptions,
+  config: TddAiConfig,
+  countTokens: (text: string) => number
+): Promise<PreparedPrompt> {
+  const {
+    testResults,
+    testCode,
+    testFilePath,
+    implementationPath,
+    projectPath,
+    currentImplementation = '',
+    previousAttempts = [],
+    model = config.ai.model
+  } = options;
+
+  // Format the test failures for better AI context
+  const failingTests = testResults.tests
+    .filter(test => !test.success)
+    .map(test => ({
+      name: test.name,
+      error: test.error,
+      code: test.code,
+    }));
+
+  logger.debug('Formatted failing tests:', JSON.stringify(failingTests, null, 2));
+
+  // Edits only make sense against an existing implementation
+  const useEdits = config.ai.outputFormat === 'edits' && currentImplementation.trim() !== '';
+  // Multi-file output needs the project root to validate paths against
+  const multiFileRoot = config.ai.multiFile ? projectPath : undefined;
+
+  const templates = await loadPromptTemplates(config);
+
+  // Declarations the test and implementation import from elsewhere in the project
+  let relatedCode = '';
+  if (projectPath && config.context?.enabled !== false) {
+    try {
+      relatedCode = await collectDependencyContext({
+        projectPath,
+        entryFiles: [implementationPath, ...(testFilePath ? [testFilePath] : [])],
+        countTokens,
+        maxTokens: config.context?.maxTokens,
+        depth: config.context?.depth,
+      });
+    } catch (error) {
+      logger.warn('Could not collect dependency context:', error);
+    }
+  }
+
+  const build = (outputFormat: PromptOutputFormat, multiFile: boolean): { system: string; prompt: string } => {
+    const system = getSystemPrompt(outputFormat === 'edits', multiFile, templates);
+
+    // Keep the prompt within the model's context window
+    const budget: PromptBudget = {
+      tokens: getPromptTokenBudget(model, config, countTokens(system)),
+      countTokens,
+    };
+
+    const prompt = buildPrompt({
+      testCode,
+      failingTests,
+      currentImplementation,
+      implementationPath,
+      previousAttempts,
+      outputFormat,
+      projectPath: multiFile ? multiFileRoot : undefined,
+      budget,
+      templates,
+      relatedCode,
+    });
+
+    logger.debug(`Generated prompt (${prompt.length} characters, ~${countTokens(prompt)} of ${budget.tokens} budgeted tokens)`);
+    return { system, prompt };
+  };
+
+  return {
+    useEdits,
+    multiFileRoot,
+    ...build(useEdits ? 'edits' : 'full', !!multiFileRoot),
+    build,
+  };
+}
+
+/**
+ * Picks the system prompt for the requested output format, applying the user's system template if configured
+ */
+function getSystemPrompt(useEdits: boolean, multiFile: boolean, templates?: PromptTemplates): string {
+  let defaultSystemPrompt: string;
+  if (multiFile) {
+    defaultSystemPrompt = useEdits ? MULTI_FILE_SYSTEM_PROMPT + MULTI_FILE_EDITS_SUFFIX : MULTI_FILE_SYSTEM_PROMPT;
+  } else {
+    defaultSystemPrompt = useEdits ? EDITS_SYSTEM_PROMPT : FULL_REWRITE_SYSTEM_PROMPT;
+  }
+  defaultSystemPrompt += EXPLANATION_SUFFIX;
+
+  if (!templates?.system) {
+    return defaultSystemPrompt;
+  }
+
+  return renderTemplate(templates.system, {
+    defaultSystemPrompt,
+    projectConventions: templates.projectConventions,
+  });
+}
+
+/**
+ * Turns file sections from a multi-file response into validated file changes.
+ * Sections may hold complete content or search/replace blocks for existing files.
+ * @param sections - Parsed file sections
+ * @param projectPath - Project root that every path must stay inside
+ */
+async function resolveFileSections(
+  sections: FileSection[],
+  projectPath: string
+): Promise<{ success: boolean; files?: FileChange[]; edits?: EditSummary; error?: string }> {
+  if (sections.length === 0) {
+    return { success: false, error: 'AI returned no file sections' };
+  }
+
+  const changes = new Map<string, FileChange>();
+  const edits: EditSummary = { requested: 0, applied: 0, failures: [], fellBackToFullRewrite: false };
+
+  for (const section of sections) {
+    let filePath: string;
+    try {
+      filePath = await resolveInsideProject(projectPath, section.path);
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+
+    // Later sections for the same file build on earlier ones
+    let existing: string | null = changes.get(filePath)?.content ?? null;
+    if (existing === null) {
+      try {
+        existing = await fs.readFile(filePath, 'utf-8');
+      } catch {
+        existing = null;
+      }
+    }
+
+    let content: string;
+    const blocks = parseSearchReplaceBlocks(section.body);
+
+    if (blocks.length > 0) {
+      edits.requested += blocks.length;
+      const applied = applySearchReplaceEdits(existing ?? '', blocks);
+
+      if (!applied.success) {
+        edits.failures.push(...applied.failures.map(({ search, reason }) => ({ search, reason: `${section.path}: ${reason}` })));
+        edits.fellBackToFullRewrite = true;
+        return { success: false, edits, error: `Edits for ${section.path} did not apply cleanly` };
+      }
+
+      edits.applied += applied.applied;
+      content = applied.content;
+    } else {
+      content = removeMarkdownFormatting(section.body.trim());
+    }
+
+    if (!content.trim()) {
+      return { success: false, error: `AI returned empty content for ${section.path}` };
+    }
+
+    const action = changes.get(filePath)?.action ?? (existing === null ? 'create' : 'modify');
+    changes.set(filePath, { path: filePath, action, content });
+  }
+
+  return {
+    success: true,
+    files: Array.from(changes.values()),
+    edits: edits.requested > 0 ? edits : undefined,
+  };
+}
+
+/**
+ * Turns a provider error into a message for the user
+ * @param error - Provider error
+ */
+function describeProviderError(error: AiProviderError): string {
+  switch (error.type) {
+    case 'aborted':
+      return `${error.provider} API request was cancelled.`;
+    case 'timeout':
+      return `${error.provider} API request timed out. Try increasing the timeout value in your configuration.`;
+    case 'auth':
+      return `Invalid or missing ${error.provider} API key`;
+    case 'rate_limit':
+      return `${error.provider} API rate limit exceeded. Please try again later.`;
+    default:
+      return error.message;
   }
 }
 
 /**
- * Builds a prompt for the AI model
+ * Builds a prompt for the AI model, from the user's generation template if configured
  */
 function buildPrompt({
   testCode,
   failingTests,
   currentImplementation,
   implementationPath,
-  previousAttempts = []
+  previousAttempts = [],
+  outputFormat = 'full',
+  projectPath,
+  budget,
+  templates,
+  relatedCode = ''
 }: {
   testCode: string;
   failingTests: Array<{
@@ -245,6 +813,7 @@ function buildPrompt({
   previousAttempts?: Array<{
     attempt: number;
     implementation: string;
+    explanation?: string;
     testResults?: {
       passingTests: number;
       failingTests: number;
@@ -254,9 +823,21 @@ function buildPrompt({
       }>;
     };
   }>;
+  outputFormat?: PromptOutputFormat;
+  projectPath?: string;
+  budget?: PromptBudget;
+  templates?: PromptTemplates;
+  relatedCode?: string;
 }): string {
   const fileExtension = path.extname(implementationPath);
   const isTypescript = fileExtension === '.ts' || fileExtension === '.tsx';
+  const projectConventions = templates?.projectConventions || '';
+
+  const failingTestsText = failingTests.map(test => `
+- Test: ${test.name || 'Unnamed test'}
+- Error: ${test.error || 'Unknown error'}
+${test.code ? `- Code: ${test.code}` : ''}
+`).join('\n');
 
   let promptText = `
 I need to implement code that passes these failing tests:
@@ -267,26 +848,71 @@ ${testCode}
 \`\`\`
 
 ## Failing Tests:
-${failingTests.map(test => `
-- Test: ${test.name || 'Unnamed test'}
-- Error: ${test.error || 'Unknown error'}
-${test.code ? `- Code: ${test.code}` : ''}
-`).join('\n')}
+${failingTestsText}
 
 ${currentImplementation ? `
 ## Current Implementation:
 \`\`\`${isTypescript ? 'typescript' : 'javascript'}
 ${currentImplementation}
 \`\`\`
+` : ''}${relatedCode ? `
+## Related Code:
+These declarations already exist in the project. Import and reuse them instead of redefining them.
+${relatedCode}
+` : ''}${projectConventions ? `
+## Project Conventions:
+${projectConventions}
 ` : ''}`;
 
+  const language = isTypescript ? 'typescript' : 'javascript';
+
+  let closingText = '';
+  if (outputFormat === 'agent') {
+    closingText += `\n\nMake all these tests pass by changing ${implementationPath} and, where needed, other files in the project.
+Remember to learn from the previous attempts and their results.`;
+  } else if (projectPath) {
+    const relativeImplementationPath = path.relative(projectPath, implementationPath);
+
+    closingText += `\n\n## Output Files:
+The implementation file under test is ${relativeImplementationPath}. You may also create new files or change existing ones (for example shared types) anywhere inside the project.
+Paths must be relative to the project root.`;
+
+    closingText += `\n\nPlease return every file needed to make all these tests pass${outputFormat === 'edits' ? ', using search/replace blocks for existing files' : ''}.
+Remember to learn from the previous attempts and their results.
+Only return the explanation section followed by file sections.`;
+  } else if (outputFormat === 'edits') {
+    closingText += `\n\nPlease change the current implementation in ${implementationPath} so that all these tests pass.
+Remember to learn from the previous attempts and their results.
+Only return the explanation section followed by search/replace blocks against the current implementation shown above.`;
+  } else {
+    closingText += `\n\nPlease generate the implementation code for ${implementationPath} that will make all these tests pass. 
+Remember to learn from the previous attempts and their results.
+Only return the explanation section followed by valid code for the implementation file, no markdown.`;
+  }
+
+
+  // Variables available to a generation template
+  const renderWithHistory = (history: string): string => renderTemplate(templates!.generation!, {
+    testCode,
+    failingTests: failingTestsText.trim(),
+    currentImplementation,
+    previousAttempts: history.trim(),
+    projectConventions,
+    relatedCode: relatedCode.trim(),
+    implementationPath,
+    language,
+    outputInstructions: closingText.trim(),
+  });
+  const fixedText = templates?.generation ? renderWithHistory('') : promptText + closingText;
+
   // Add previous attempts if available, with safe processing to avoid circular references
+  let historyText = '';
   if (previousAttempts && previousAttempts.length > 0) {
-    promptText += `\n\n## Previous Attempts:`;
+    historyText += `\n\n## Previous Attempts:`;
 
     // Add a summary analysis section
-    promptText += `\n\n### Analysis of Previous Attempts:`;
-    promptText += `\nYou've made ${previousAttempts.length} previous attempts to solve this problem.`;
+    historyText += `\n\n### Analysis of Previous Attempts:`;
+    historyText += `\nYou've made ${previousAttempts.length} previous attempts to solve this problem.`;
 
     // Find the attempt with the most passing tests (safely)
     let bestAttemptIndex = 0;
@@ -301,7 +927,7 @@ ${currentImplementation}
     }
 
     if (previousAttempts[bestAttemptIndex]) {
-      promptText += `\nYour best attempt was #${previousAttempts[bestAttemptIndex].attempt} with ${mostPassingTests} passing tests.`;
+      historyText += `\nYour best attempt was #${previousAttempts[bestAttemptIndex].attempt} with ${mostPassingTests} passing tests.`;
     }
 
     // Add pattern of errors if consistent across attempts - with safe handling
@@ -321,44 +947,150 @@ ${currentImplementation}
       .map(([error, _]) => error);
 
     if (persistentErrors.length > 0) {
-      promptText += `\n\nPersistent errors that have appeared in multiple attempts:`;
+      historyText += `\n\nPersistent errors that have appeared in multiple attempts:`;
       persistentErrors.forEach(error => {
-        promptText += `\n- ${error}`;
+        historyText += `\n- ${error}`;
       });
     }
 
-    // Now add the detailed attempt history (safely processed)
-    for (const attempt of previousAttempts) {
-      if (!attempt) continue;
+    // Decide how much of each attempt fits in the budget, leaving room for the note on omitted attempts,
+    // then add the attempt history in order
+    const detail = planAttemptDetail(
+      previousAttempts,
+      bestAttemptIndex,
+      language,
+      budget ? budget.tokens - budget.countTokens(fixedText + historyText + omittedAttemptsNote(previousAttempts.length)) : undefined,
+      budget?.countTokens
+    );
 
-      promptText += `\n\n### Attempt ${attempt.attempt}:`;
+    previousAttempts.forEach((attempt, index) => {
+      if (!attempt || detail[index] === 'omitted') return;
+      historyText += renderAttempt(attempt, detail[index] === 'full', language);
+    });
 
-      if (attempt.implementation) {
-        promptText += `\n\`\`\`${isTypescript ? 'typescript' : 'javascript'}\n${attempt.implementation}\n\`\`\``;
-      } else {
-        promptText += `\n(No implementation code available for this attempt)`;
-      }
+    const omitted = detail.filter(level => level === 'omitted').length;
+    if (omitted > 0) {
+      historyText += omittedAttemptsNote(omitted);
+    }
+  }
 
-      if (attempt.testResults) {
-        promptText += `\n\nResults: ${attempt.testResults.passingTests} passing, ${attempt.testResults.failingTests} failing`;
+  return templates?.generation ? renderWithHistory(historyText) : promptText + historyText + closingText;
+}
 
-        if (attempt.testResults.failureDetails && attempt.testResults.failureDetails.length > 0) {
-          promptText += `\n\nFailures:`;
-          for (const failure of attempt.testResults.failureDetails) {
-            if (failure && typeof failure === 'object' && 'name' in failure && 'error' in failure) {
-              promptText += `\n- ${failure.name}: ${failure.error}`;
-            }
-          }
+type PromptAttempt = NonNullable<GenerateOptions['previousAttempts']>[number];
+
+function omittedAttemptsNote(count: number): string {
+  return `\n\n(${count} older attempts omitted to fit the context window)`;
+}
+
+/**
+ * Decides whether each previous attempt is included in full, summarized to its results, or omitted.
+ * The best attempt gets first claim on the budget, followed by the most recent attempts.
+ * @param attempts - Previous attempts in chronological order
+ * @param bestIndex - Index of the attempt with the most passing tests
+ * @param language - Code fence language
+ * @param remainingTokens - Tokens left for the attempt history, or undefined for no limit
+ * @param countTokens - Token counter for the active provider
+ */
+function planAttemptDetail(
+  attempts: PromptAttempt[],
+  bestIndex: number,
+  language: string,
+  remainingTokens?: number,
+  countTokens?: (text: string) => number
+): Array<'full' | 'summary' | 'omitted'> {
+  const detail: Array<'full' | 'summary' | 'omitted'> = attempts.map(() => 'full');
+
+  if (remainingTokens === undefined || !countTokens) {
+    return detail;
+  }
+
+  if (remainingTokens <= 0) {
+    logger.warn('Prompt already exceeds the context window budget before adding previous attempts');
+  }
+
+  const priority = [bestIndex, ...attempts.map((_, index) => index).reverse().filter(index => index !== bestIndex)];
+  let remaining = remainingTokens;
+
+  for (const index of priority) {
+    const attempt = attempts[index];
+    if (!attempt) continue;
+
+    const fullTokens = countTokens(renderAttempt(attempt, true, language));
+    if (fullTokens <= remaining) {
+      remaining -= fullTokens;
+      continue;
+    }
+
+    const summaryTokens = countTokens(renderAttempt(attempt, false, language));
+    if (summaryTokens <= remaining) {
+      detail[index] = 'summary';
+      remaining -= summaryTokens;
+    } else {
+      detail[index] = 'omitted';
+    }
+  }
+
+  const summarized = attempts.filter((_, index) => detail[index] === 'summary').map(attempt => `#${attempt.attempt}`);
+  const omitted = attempts.filter((_, index) => detail[index] === 'omitted').map(attempt => `#${attempt.attempt}`);
+
+  if (summarized.length > 0 || omitted.length > 0) {
+    logger.debug(`Prompt budget: summarized attempts ${summarized.join(', ') || 'none'}; omitted attempts ${omitted.join(', ') || 'none'}`);
+  }
+  logger.debug(`Prompt budget: ${remainingTokens} tokens available for previous attempts, ${remaining} left unused`);
+
+  return detail;
+}
+
+/**
+ * Renders one previous attempt, either with its implementation or as a results-only summary
+ */
+function renderAttempt(attempt: PromptAttempt, includeImplementation: boolean, language: string): string {
+  let text = `\n\n### Attempt ${attempt.attempt}:`;
+
+  if (attempt.explanation) {
+    text += `\nPlan: ${attempt.explanation}`;
+  }
+
+  if (!includeImplementation) {
+    text += `\n(Implementation omitted to save space)`;
+  } else if (attempt.implementation) {
+    text += `\n\`\`\`${language}\n${attempt.implementation}\n\`\`\``;
+  } else {
+    text += `\n(No implementation code available for this attempt)`;
+  }
+
+  if (attempt.testResults) {
+    text += `\n\nResults: ${attempt.testResults.passingTests} passing, ${attempt.testResults.failingTests} failing`;
+
+    if (attempt.testResults.failureDetails && attempt.testResults.failureDetails.length > 0) {
+      text += `\n\nFailures:`;
+      for (const failure of attempt.testResults.failureDetails) {
+        if (failure && typeof failure === 'object' && 'name' in failure && 'error' in failure) {
+          text += `\n- ${failure.name}: ${failure.error}`;
         }
       }
     }
   }
 
-  promptText += `\n\nPlease generate the implementation code for ${implementationPath} that will make all these tests pass. 
-Remember to learn from the previous attempts and their results.
-Only return valid code for the implementation file, no explanations or markdown.`;
+  return text;
+}
+
+/**
+ * Splits the explanation section off the start of a generation response
+ * @param text - Response text
+ * @returns The explanation, if the response has one, and the rest of the response
+ */
+function parseExplanation(text: string): { explanation?: string; body: string } {
+  const match = text.match(EXPLANATION_REGEX);
+  if (!match) {
+    return { body: text };
+  }
 
-  return promptText;
+  return {
+    explanation: match[1].trim() || undefined,
+    body: text.slice(match[0].length),
+  };
 }
 
 /**
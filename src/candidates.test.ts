@@ -0,0 +1,123 @@
+// src/candidates.test.ts
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { generateBestCandidate, pickBestCandidate } from './candidates.js';
+import { initializeAI } from './ai-service.js';
+import { registerTestRunner } from './runners/index.js';
+import { loadConfig, TddAiConfig } from './utils/config.js';
+import { logger } from './utils/logger.js';
+import { GenerateOptions, TestRunOutput, TestResults, CandidateResult } from './types.js';
+
+const ORIGINAL = 'export const add = (a: number, b: number) => 0;\n';
+const LOSING = 'export const add = (a: number, b: number) => a - b;\n';
+const WINNING = 'export const add = (a: number, b: number) => a + b;\n';
+
+// Implementations the runner saw, and what it does before each run
+let seen: string[] = [];
+let beforeRun: () => void = () => {};
+
+// Passes once math.ts adds
+registerTestRunner({
+  name: 'candidate-runner',
+  async detect() {
+    return false;
+  },
+  async run({ projectPath }): Promise<TestRunOutput> {
+    const code = await fs.readFile(path.join(projectPath, 'math.ts'), 'utf-8');
+    seen.push(code);
+    beforeRun();
+    return { stdout: String(code.includes('a + b')), stderr: '', exitCode: 0 };
+  },
+  parse(output: TestRunOutput): TestResults {
+    const success = output.stdout === 'true';
+    return {
+      files: [{ file: 'math.test.ts', success, tests: [{ name: 'adds', success }] }],
+      summary: { total: 1, passed: success ? 1 : 0, failed: success ? 0 : 1, duration: 0 },
+    };
+  },
+});
+
+function candidate(index: number, passingTests: number, failingTests: number, size: number): CandidateResult {
+  return { index, size, totalTests: passingTests + failingTests, passingTests, failingTests, selected: false };
+}
+
+describe('pickBestCandidate', () => {
+  it('prefers more passing tests, then fewer failures, then less code', () => {
+    expect(pickBestCandidate([candidate(1, 1, 2, 10), candidate(2, 2, 1, 500), candidate(3, 1, 0, 5)]).index).toBe(2);
+    expect(pickBestCandidate([candidate(1, 2, 3, 10), candidate(2, 2, 1, 500)]).index).toBe(2);
+    expect(pickBestCandidate([candidate(1, 2, 1, 300), candidate(2, 2, 1, 200), candidate(3, 2, 1, 200)]).index).toBe(2);
+  });
+});
+
+describe('generateBestCandidate', () => {
+  let projectPath: string;
+  let config: TddAiConfig;
+  let options: GenerateOptions;
+
+  beforeEach(async () => {
+    logger.configure({ level: 'error' });
+    projectPath = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'tdd-ai-candidates-')));
+    await fs.writeFile(path.join(projectPath, 'math.ts'), ORIGINAL);
+    await fs.writeFile(path.join(projectPath, 'math.test.ts'), '');
+
+    config = await loadConfig({ aiProvider: 'scripted', logLevel: 'error' });
+    config.ai.script = { implementations: [LOSING, WINNING, LOSING] };
+    config.testRunner.adapter = 'candidate-runner';
+    await initializeAI(config, { projectPath });
+
+    options = {
+      testResults: { file: 'math.test.ts', success: false, tests: [{ name: 'adds', success: false }] },
+      testCode: "it('adds', () => expect(add(1, 2)).toBe(3));",
+      testFilePath: path.join(projectPath, 'math.test.ts'),
+      implementationPath: path.join(projectPath, 'math.ts'),
+      projectPath,
+      currentImplementation: ORIGINAL,
+    };
+    seen = [];
+    beforeRun = () => {};
+  });
+
+  afterEach(async () => {
+    await fs.rm(projectPath, { recursive: true, force: true });
+  });
+
+  function select(signal?: AbortSignal): ReturnType<typeof generateBestCandidate> {
+    return generateBestCandidate({ ...options, signal }, config, {
+      count: 3,
+      testFilePath: path.join(projectPath, 'math.test.ts'),
+      projectPath,
+    });
+  }
+
+  it('keeps the best candidate without leaving any of them on disk', async () => {
+    const { generated, candidates } = await select();
+
+    expect(generated.code?.trim()).toBe(WINNING.trim());
+    expect(candidates.map(candidate => [candidate.passingTests, candidate.selected])).toEqual([[0, false], [1, true]]);
+    expect(seen.map(code => code.trim())).toEqual([LOSING.trim(), WINNING.trim()]);
+    expect(await fs.readFile(path.join(projectPath, 'math.ts'), 'utf-8')).toBe(ORIGINAL);
+  });
+
+  it('restores the original files when the test runner fails', async () => {
+    beforeRun = () => {
+      throw new Error('runner crashed');
+    };
+
+    const { candidates } = await select();
+
+    expect(candidates[0].error).toContain('runner crashed');
+    expect(await fs.readFile(path.join(projectPath, 'math.ts'), 'utf-8')).toBe(ORIGINAL);
+  });
+
+  it('restores the original files when stopped during an evaluation', async () => {
+    const controller = new AbortController();
+    beforeRun = () => controller.abort();
+
+    const { candidates } = await select(controller.signal);
+
+    expect(candidates).toHaveLength(1);
+    expect(await fs.readFile(path.join(projectPath, 'math.ts'), 'utf-8')).toBe(ORIGINAL);
+  });
+});
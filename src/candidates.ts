@@ -0,0 +1,151 @@
+// src/candidates.ts
+import { generateImplementation } from './ai-service.js';
+import { runTests } from './test-runner.js';
+import { applyFileChanges, snapshotFiles, restoreSnapshot } from './utils/file-changes.js';
+import { logger } from './utils/logger.js';
+import { TddAiConfig } from './utils/config.js';
+import { GenerateOptions, GenerateResult, CandidateResult, FileChange } from './types.js';
+
+export interface CandidateSelectionOptions {
+  count: number;
+  testFilePath: string;
+  projectPath: string;
+  // Checked before each generation; returning true stops generating further candidates
+  shouldStop?: () => boolean;
+  onCandidate?: (candidate: CandidateResult) => void;
+}
+
+/**
+ * Generates several candidate implementations, runs the test file against each one and
+ * keeps the one with the most passing tests. Ties go to the smallest candidate.
+ * Generation stops early once a candidate passes every test.
+ * The project files are left unchanged; the caller applies the winner.
+ * @param options - Generation options shared by every candidate
+ * @param config - Application configuration
+ * @param selection - Candidate count, test file and callbacks
+ * @returns The winning generation result and the evaluation of every candidate
+ */
+export async function generateBestCandidate(
+  options: GenerateOptions,
+  config: TddAiConfig,
+  selection: CandidateSelectionOptions
+): Promise<{ generated: GenerateResult; candidates: CandidateResult[] }> {
+  const { count, testFilePath, projectPath, shouldStop, onCandidate } = selection;
+  const candidates: CandidateResult[] = [];
+  const generatedResults: GenerateResult[] = [];
+  let lastError: string | undefined;
+
+  for (let index = 1; index <= count; index++) {
+    if (shouldStop?.()) {
+      logger.info(`Stopping candidate generation after ${index - 1} of ${count} candidates`);
+      break;
+    }
+
+    logger.info(`Generating candidate ${index}/${count}...`);
+    const generated = await generateImplementation({ ...options, candidate: index }, config);
+
+    // A stopped loop doesn't write any more candidates to disk
+    if (options.signal?.aborted) {
+      break;
+    }
+
+    if (!generated.success || (!generated.code && !generated.files?.length)) {
+      lastError = generated.error || 'AI returned empty implementation';
+      logger.warn(`Candidate ${index} could not be generated: ${lastError}`);
+      continue;
+    }
+
+    const candidate = await evaluateCandidate(index, generated, options.implementationPath, testFilePath, projectPath, config);
+    candidates.push(candidate);
+    generatedResults.push(generated);
+    onCandidate?.(candidate);
+
+    if (candidate.totalTests > 0 && candidate.failingTests === 0 && !candidate.error) {
+      logger.info(`Candidate ${index} passes every test, skipping the remaining candidates`);
+      break;
+    }
+  }
+
+  if (candidates.length === 0) {
+    return {
+      generated: { success: false, error: lastError || 'No candidates were generated' },
+      candidates,
+    };
+  }
+
+  const winner = pickBestCandidate(candidates);
+  winner.selected = true;
+  logger.info(`Selected candidate ${winner.index} (${winner.passingTests}/${winner.totalTests} tests passing, ${winner.size} characters)`);
+
+  return {
+    generated: generatedResults[candidates.indexOf(winner)],
+    candidates,
+  };
+}
+
+/**
+ * Picks the candidate with the most passing tests, preferring fewer failures, then smaller code
+ */
+export function pickBestCandidate(candidates: CandidateResult[]): CandidateResult {
+  return candidates.reduce((best, candidate) => {
+    if (candidate.passingTests !== best.passingTests) {
+      return candidate.passingTests > best.passingTests ? candidate : best;
+    }
+    if (candidate.failingTests !== best.failingTests) {
+      return candidate.failingTests < best.failingTests ? candidate : best;
+    }
+    return candidate.size < best.size ? candidate : best;
+  });
+}
+
+/**
+ * Writes a candidate to disk, runs the test file against it and restores the original files
+ */
+async function evaluateCandidate(
+  index: number,
+  generated: GenerateResult,
+  implementationPath: string,
+  testFilePath: string,
+  projectPath: string,
+  config: TddAiConfig
+): Promise<CandidateResult> {
+  const changes: FileChange[] = generated.files?.length
+    ? generated.files
+    : [{ path: implementationPath, action: 'modify', content: generated.code! }];
+
+  const candidate: CandidateResult = {
+    index,
+    code: generated.code,
+    files: generated.files,
+    size: changes.reduce((total, change) => total + change.content.length, 0),
+    totalTests: 0,
+    passingTests: 0,
+    failingTests: 0,
+    selected: false,
+  };
+
+  const snapshot = await snapshotFiles(changes.map(change => change.path));
+
+  try {
+    const applied = await applyFileChanges(changes);
+    if (!applied.success) {
+      candidate.error = `Could not write candidate: ${applied.error}`;
+      return candidate;
+    }
+
+    const testResults = await runTests({ projectPath, files: [testFilePath] }, config);
+    const summary = testResults.results?.summary;
+
+    candidate.totalTests = summary?.total || 0;
+    candidate.passingTests = summary?.passed || 0;
+    candidate.failingTests = summary?.failed || 0;
+    if (testResults.error) {
+      candidate.error = testResults.error;
+    }
+
+    logger.info(`Candidate ${index}: ${candidate.passingTests}/${candidate.totalTests} tests passing (${candidate.size} characters)`);
+    return candidate;
+  } finally {
+    await restoreSnapshot(snapshot);
+  }
+}
@@ -0,0 +1,176 @@
+// src/coverage.ts
+import fs from 'fs/promises';
+import path from 'path';
+import { removeDeadCode, applyGeneratedCode } from './ai-service.js';
+import { runTests, runCoverage } from './test-runner.js';
+import { snapshotFiles, restoreSnapshot } from './utils/file-changes.js';
+import { fileExists } from './runners/helpers.js';
+import { logger } from './utils/logger.js';
+import { TddAiConfig } from './utils/config.js';
+import { CoverageReport, FileCoverage } from './types.js';
+
+const DEFAULT_REPORT_PATH = 'tdd-ai-coverage.json';
+
+export interface CoverageCheckOptions {
+  projectPath: string;
+  // Implementation files written during the session
+  implementationFiles: string[];
+  model?: string;
+  signal?: AbortSignal;
+  // Checked before each dead code request; returning true skips the rest
+  shouldStop?: () => boolean;
+}
+
+/**
+ * Measures how much of the implementation the passing tests run, optionally asks the model to
+ * remove the code they don't, and writes the report (config.coverage.reportPath).
+ * Removals are only kept when the full suite still passes without the code.
+ * @param options - Project, implementation files and callbacks
+ * @param config - Application configuration
+ * @returns The coverage report, or null if coverage couldn't be measured
+ */
+export async function checkCoverage(options: CoverageCheckOptions, config: TddAiConfig): Promise<CoverageReport | null> {
+  const { projectPath, implementationFiles } = options;
+
+  const sourceFiles: string[] = [];
+  for (const file of implementationFiles) {
+    if (await fileExists(file)) {
+      sourceFiles.push(file);
+    }
+  }
+  if (sourceFiles.length === 0) {
+    logger.debug('No implementation files to measure coverage of');
+    return null;
+  }
+
+  const measured = await runCoverage({ projectPath }, sourceFiles, config);
+  if (!measured.success || !measured.files) {
+    logger.warn(`Could not measure coverage: ${measured.error}`);
+    return null;
+  }
+
+  const report: CoverageReport = { generatedAt: new Date(), files: measured.files };
+
+  if (config.coverage?.removeDeadCode) {
+    report.deadCodeRemoved = await removeUncoveredCode(measured.files, options, config);
+
+    if (report.deadCodeRemoved.length > 0) {
+      const remeasured = await runCoverage({ projectPath }, sourceFiles, config);
+      if (remeasured.success && remeasured.files) {
+        report.files = remeasured.files;
+      }
+    }
+  }
+
+  const reportPath = path.resolve(projectPath, config.coverage?.reportPath || DEFAULT_REPORT_PATH);
+  try {
+    await fs.mkdir(path.dirname(reportPath), { recursive: true });
+    await fs.writeFile(reportPath, JSON.stringify(report, null, 2));
+    report.reportPath = reportPath;
+    logger.info(`Coverage report written to ${reportPath}`);
+  } catch (error) {
+    logger.error(`Error writing the coverage report to ${reportPath}:`, error);
+  }
+
+  return report;
+}
+
+/**
+ * Summarizes a coverage report in one line per file
+ */
+export function formatCoverage(report: CoverageReport): string {
+  return report.files.map(file => {
+    const uncovered = file.uncoveredLines.length > 0 ? `, uncovered lines ${formatLineRanges(file.uncoveredLines)}` : '';
+    const removed = report.deadCodeRemoved?.includes(file.file) ? ' (dead code removed)' : '';
+    return `${path.basename(file.file)}: ${file.linePercent}% of lines, ${file.branchPercent}% of branches${uncovered}${removed}`;
+  }).join('\n');
+}
+
+/**
+ * Asks the model to remove uncovered code from each file that has a test file, one file at a time
+ * @returns Files whose removal was kept
+ */
+async function removeUncoveredCode(files: FileCoverage[], options: CoverageCheckOptions, config: TddAiConfig): Promise<string[]> {
+  const { projectPath, model, signal, shouldStop } = options;
+  const removedFrom: string[] = [];
+
+  for (const coverage of files) {
+    if (coverage.uncoveredLines.length === 0 && coverage.uncoveredBranchLines.length === 0) {
+      continue;
+    }
+    if (shouldStop?.()) {
+      logger.info('Skipping the rest of the dead code removal');
+      break;
+    }
+
+    const testFilePath = await findTestFile(coverage.file);
+    if (!testFilePath) {
+      logger.info(`No test file found for ${coverage.file}, leaving its code as it is`);
+      continue;
+    }
+
+    const [snapshot] = await snapshotFiles([coverage.file]);
+    const implementation = snapshot.content ?? '';
+    const generated = await removeDeadCode({
+      implementationPath: coverage.file,
+      implementation,
+      testCode: await fs.readFile(testFilePath, 'utf-8'),
+      coverage,
+      model,
+      signal,
+    }, config);
+
+    if (!generated.success || !generated.code) {
+      logger.warn(`Could not remove dead code from ${coverage.file}: ${generated.error}`);
+      continue;
+    }
+    if (generated.code.trim() === implementation.trim()) {
+      logger.info(`The AI kept all of ${coverage.file}`);
+      continue;
+    }
+
+    await applyGeneratedCode({ code: generated.code, implementationPath: coverage.file });
+    const testResults = await runTests({ projectPath }, config);
+
+    if (testResults.success) {
+      logger.info(`Removed dead code from ${coverage.file}`);
+      removedFrom.push(coverage.file);
+    } else {
+      logger.warn(`Tests fail without the code removed from ${coverage.file}, restoring it`);
+      await restoreSnapshot([snapshot]);
+    }
+  }
+
+  return removedFrom;
+}
+
+/**
+ * Finds the test file for an implementation file, the reverse of how the loop derives implementation paths
+ */
+async function findTestFile(implementationPath: string): Promise<string | null> {
+  const extension = path.extname(implementationPath);
+  const base = implementationPath.slice(0, -extension.length);
+
+  for (const suffix of ['.test', '.spec']) {
+    if (await fileExists(`${base}${suffix}${extension}`)) {
+      return `${base}${suffix}${extension}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Formats line numbers like [3, 4, 5, 8] as '3-5, 8'
+ */
+function formatLineRanges(lines: number[]): string {
+  const ranges: string[] = [];
+  let start = lines[0];
+
+  for (let index = 1; index <= lines.length; index++) {
+    if (lines[index] !== lines[index - 1] + 1) {
+      ranges.push(start === lines[index - 1] ? `${start}` : `${start}-${lines[index - 1]}`);
+      start = lines[index];
+    }
+  }
+  return ranges.join(', ');
+}
@@ -5,19 +5,35 @@
 import 'source-map-support/register.js';
 import 'dotenv/config';
 
-import { Command } from 'commander';
+import { Command, InvalidArgumentError } from 'commander';
 import chalk from 'chalk';
 import ora from 'ora';
 import path from 'path';
 import readline from 'readline';
+import fs from 'fs/promises';
 import { startTddAiLoop } from './orchestrator.js';
+import { buildGenerationPrompt } from './ai-service.js';
+import { runTests, closeTestRunners } from './test-runner.js';
 import { startUiServer } from './ui/server.js';
 import { UiServer, StatusUpdate, TddAiState, TestValidationStatus } from './types.js';
-import { logger } from './utils/logger.js';
+import { logger, LogLevel, LOG_LEVELS, isLogLevel } from './utils/logger.js';
 import { loadConfig, createSampleConfig } from './utils/config.js';
+import { formatUsage } from './utils/usage.js';
+import { ModelLadder } from './utils/model-ladder.js';
+import { ResponseCache, getCacheDir } from './utils/response-cache.js';
 
 const program = new Command();
 
+/**
+ * Parses the --log-level option, rejecting names the logger doesn't know
+ */
+function parseLogLevel(value: string): LogLevel {
+  if (!isLogLevel(value)) {
+    throw new InvalidArgumentError(`Expected one of ${LOG_LEVELS.join(', ')}.`);
+  }
+  return value;
+}
+
 program
   .name('tdd-ai-coder')
   .description('TDD-driven AI code generator')
@@ -34,20 +50,38 @@ program
   .option('-d, --debug', 'Enable debug logging', false)
   .option('-v, --verbose', 'Enable verbose logging (includes all AI prompts and responses)', false)
   .option('--skip-validation', 'Skip test validation step', false)
-  .option('--log-level <level>', 'Set log level (debug, info, warn, error)', 'info')
-  .option('--ai-model <model>', 'AI model to use', 'gpt-4-turbo')
-  .option('--ai-provider <provider>', 'AI provider to use (openai, anthropic, local)', 'openai')
-  .option('--ai-temperature <temp>', 'Temperature for AI generation (0-1)', '0.2')
+  .option('--log-level <level>', 'Set log level (debug, info, warn, error)', parseLogLevel, 'info')
+  .option('--ai-model <model>', 'AI model to use (default depends on the provider)')
+  .option('--ai-provider <provider>', 'AI provider to use (openai, anthropic, local, scripted)')
+  .option('--ai-temperature <temp>', 'Temperature for AI generation (0-1)')
+  .option('--output-format <format>', 'How the AI returns code: full (whole file) or edits (search/replace blocks)')
+  .option('--no-stream', 'Wait for complete AI responses instead of streaming progress')
+  .option('--multi-file', 'Allow the AI to create or change several files per attempt')
+  .option('--record <dir>', 'Record all AI requests and responses to cassette files in this directory')
+  .option('--replay <dir>', 'Replay AI responses from cassette files in this directory (no network access)')
+  .option('--model-ladder <models>', 'Comma-separated models to escalate through as attempts fail, cheapest first')
+  .option('--agent', 'Let the AI read files, run tests and propose edits through tools')
+  .option('--agent-steps <number>', 'Maximum tool calls per attempt in agent mode')
+  .option('--no-context', 'Leave declarations from imported project files out of the prompt')
+  .option('--candidates <number>', 'Implementations to generate per attempt; the one passing the most tests is kept')
+  .option('--no-cache', 'Always call the AI instead of reusing cached responses to identical prompts')
+  .option('--test-runner <name>', 'Test runner to use (vitest, jest, node-test), detected from package.json by default')
+  .option('--persistent-runner', 'Keep Vitest running between test runs instead of starting it for every attempt')
+  .option('--coverage', 'Measure coverage of the implementation once all tests pass')
+  .option('--remove-dead-code', 'After measuring coverage, ask the AI to remove code no test runs')
+  .option('--max-retries <number>', 'Retries for rate-limited or failed AI requests')
+  .option('--max-tokens <number>', 'Stop once the session has used this many AI tokens')
+  .option('--max-cost <usd>', 'Stop once the estimated AI cost of the session reaches this many US dollars')
   .action(async (options) => {
     // Process options
     const projectPath = path.resolve(options.project);
     const uiPort = parseInt(options.uiPort, 10);
 
     // Configure logging
-    const logLevel = options.debug ? 'debug' : options.logLevel;
+    const logLevel: LogLevel = options.debug ? 'debug' : options.logLevel;
 
     logger.configure({
-      level: logLevel as any,
+      level: logLevel,
       timestamps: true,
       colors: true
     });
@@ -69,10 +103,20 @@ program
     console.log(chalk.blue('🧪 TDD-AI Coder'));
     console.log(chalk.gray(`Project path: ${projectPath}`));
     console.log(chalk.gray(`Test pattern: ${config.project.testFilePattern}`));
+    console.log(chalk.gray(`Test runner: ${config.testRunner.adapter || 'auto'}${config.testRunner.persistent ? ' (persistent)' : ''}`));
     console.log(chalk.gray(`Max attempts: ${config.project.maxAttempts}`));
     console.log(chalk.gray(`Log level: ${config.logging.level}`));
     console.log(chalk.gray(`AI provider: ${config.ai.provider}`));
-    console.log(chalk.gray(`AI model: ${config.ai.model}`));
+    console.log(chalk.gray(`AI model: ${config.ai.modelLadder ? config.ai.modelLadder.models.join(' → ') : config.ai.model}`));
+    if (config.ai.cassette) {
+      console.log(chalk.gray(`AI cassette: ${config.ai.cassette.mode} (${config.ai.cassette.dir})`));
+    }
+    if (config.cache?.enabled === false) {
+      console.log(chalk.gray('Response cache: disabled'));
+    }
+    if (config.budget?.maxTokens !== undefined || config.budget?.maxCostUsd !== undefined) {
+      console.log(chalk.gray(`Budget: ${config.budget.maxTokens ?? 'unlimited'} tokens, $${config.budget.maxCostUsd ?? 'unlimited'}`));
+    }
 
     // Start UI if requested
     let uiServer: UiServer | undefined;
@@ -93,18 +137,45 @@ program
     }
 
     // Create spinner handler for status updates
+    const printUsage = (update: StatusUpdate): void => {
+      if (update.usage) {
+        console.log(chalk.gray(`AI usage: ${formatUsage(update.usage)}`));
+      }
+    };
+
     const handleStatusUpdate = (update: StatusUpdate): void => {
+      uiServer?.broadcastUpdate(update);
+
       switch (update.status) {
         case 'running_tests':
           spinner.text = `Running tests (attempt ${update.attempt}/${update.maxAttempts})...`;
           break;
         case 'generating_code':
-          spinner.text = `Generating implementation for ${path.basename(update.file || '')} (attempt ${update.attempt})...`;
+          spinner.text = `Generating implementation for ${path.basename(update.file || '')} (attempt ${update.attempt}${update.model ? `, ${update.model}` : ''})...`;
+          break;
+        case 'model_switched':
+          spinner.info(chalk.cyan(update.message || `Switched to ${update.model}`));
+          spinner = ora('Waiting for next step...').start();
+          break;
+        case 'generation_progress':
+          spinner.text = `Generating implementation for ${path.basename(update.file || '')} (attempt ${update.attempt})... ${update.progress?.characters || 0} chars (~${update.progress?.tokens || 0} tokens)`;
           break;
         case 'implementation_updated':
           spinner.succeed(`Updated ${path.basename(update.file || '')} (attempt ${update.attempt})`);
+          if (update.explanation && config.logging.level === 'debug') {
+            console.log(chalk.gray(`  Plan: ${update.explanation}`));
+          }
           spinner = ora('Waiting for next step...').start();
           break;
+        case 'retrying':
+          spinner.text = `${update.message} (retry ${update.retry?.retry}/${update.retry?.maxRetries} in ${Math.ceil((update.retry?.delayMs || 0) / 1000)}s)...`;
+          break;
+        case 'candidate_evaluated':
+          spinner.text = `Candidate ${update.candidate?.index}/${update.candidateCount} for ${path.basename(update.file || '')}: ${update.candidate?.passingTests}/${update.candidate?.totalTests} tests passing`;
+          break;
+        case 'agent_tool_call':
+          spinner.text = `Agent step ${update.toolCall?.step}: ${update.toolCall?.tool}${update.toolCall?.args.path ? ` ${update.toolCall.args.path}` : ''} (attempt ${update.attempt})...`;
+          break;
         case 'validation_waiting':
           spinner.text = `Validating test file ${path.basename(update.file || '')}...`;
           break;
@@ -115,20 +186,32 @@ program
           break;
         case 'success':
           spinner.succeed(chalk.green(update.message || 'Success!'));
+          printUsage(update);
           if (uiServer) {
             console.log(chalk.green(`You can view the results at http://localhost:${uiPort}`));
           }
           break;
+        case 'coverage_report':
+          console.log(chalk.cyan(`Coverage:\n${update.message}`));
+          if (update.coverage?.reportPath) {
+            console.log(chalk.gray(`Coverage report: ${update.coverage.reportPath}`));
+          }
+          break;
         case 'error':
           spinner.fail(chalk.red(update.message || 'Error occurred'));
           spinner = ora('Waiting for next step...').start();
           break;
         case 'max_attempts_reached':
           spinner.fail(chalk.yellow(update.message || 'Max attempts reached'));
+          printUsage(update);
           if (uiServer) {
             console.log(chalk.gray(`You can view the results at http://localhost:${uiPort}`));
           }
           break;
+        case 'budget_exceeded':
+          spinner.fail(chalk.yellow(update.message || 'Session budget exceeded'));
+          printUsage(update);
+          break;
       }
     };
 
@@ -138,28 +221,29 @@ program
     // Create validation prompt handler
     const validationPrompt = createValidationPrompt();
 
-    let tddAi: { stop: () => Promise<void>; getState: () => TddAiState };
-    try {
-      tddAi = await startTddAiLoop({
-        projectPath,
-        onValidationIssue: validationPrompt,
-        onUpdate: handleStatusUpdate,
-      }, config);
-    } catch (error) {
-      spinner.fail(`Failed to start TDD-AI loop: ${error instanceof Error ? error.message : String(error)}`);
-      if (uiServer) {
-        await uiServer.stop();
-      }
-      process.exit(1);
-    }
+    // Handle process termination; registered before the loop starts so Ctrl+C can cancel a generation in progress
+    const abortController = new AbortController();
+    let tddAi: { stop: () => Promise<void>; getState: () => TddAiState } | undefined;
+    let starting: Promise<unknown> = Promise.resolve();
 
-    // Handle process termination
     process.on('SIGINT', async () => {
       console.log(''); // Add a newline for better output
       spinner.text = 'Shutting down...';
 
       try {
-        await tddAi.stop();
+        abortController.abort();
+
+        // The first loop run ends once the attempt in progress has restored any files it was testing
+        await starting.catch(() => undefined);
+
+        if (tddAi) {
+          await tddAi.stop();
+
+          const usage = tddAi.getState().usage;
+          if (usage) {
+            console.log(chalk.gray(`AI usage: ${formatUsage(usage)}`));
+          }
+        }
 
         if (uiServer) {
           await uiServer.stop();
@@ -172,6 +256,23 @@ program
 
       process.exit(0);
     });
+
+    try {
+      const started = startTddAiLoop({
+        projectPath,
+        onValidationIssue: validationPrompt,
+        onUpdate: handleStatusUpdate,
+        signal: abortController.signal,
+      }, config);
+      starting = started;
+      tddAi = await started;
+    } catch (error) {
+      spinner.fail(`Failed to start TDD-AI loop: ${error instanceof Error ? error.message : String(error)}`);
+      if (uiServer) {
+        await uiServer.stop();
+      }
+      process.exit(1);
+    }
   });
 
 // Add a command to initialize config - MOVED BEFORE parse()
@@ -192,6 +293,89 @@ program
     }
   });
 
+// Add a command to inspect prompts without calling the model
+const promptCommand = program
+  .command('prompt')
+  .description('Inspect the prompts sent to the AI');
+
+promptCommand
+  .command('preview')
+  .description('Render the generation prompt for the current failing tests without calling the model')
+  .option('-p, --project <path>', 'Path to the project', '.')
+  .option('-f, --file <path>', 'Only preview the prompt for this test file')
+  .option('--log-level <level>', 'Set log level (debug, info, warn, error)', parseLogLevel, 'warn')
+  .action(async (options) => {
+    const projectPath = path.resolve(options.project);
+    logger.configure({ level: options.logLevel });
+
+    const config = await loadConfig(options);
+    const testFile = options.file ? path.resolve(options.file) : undefined;
+
+    const spinner = ora('Running tests...').start();
+    const testResults = await runTests({ projectPath, files: testFile ? [testFile] : undefined }, config);
+    await closeTestRunners();
+
+    if (!testResults.results) {
+      spinner.fail(`Could not run tests: ${testResults.error || 'no test results'}`);
+      process.exit(1);
+    }
+
+    const failingFiles = testResults.results.files.filter(file => file.tests.some(test => !test.success));
+    if (failingFiles.length === 0) {
+      spinner.succeed('All tests are passing, there is no prompt to preview');
+      return;
+    }
+    spinner.stop();
+
+    for (const fileResult of failingFiles) {
+      const testFilePath = path.isAbsolute(fileResult.file) ? fileResult.file : path.join(projectPath, fileResult.file);
+      const implementationPath = testFilePath.replace('.test.', '.').replace('.spec.', '.');
+      const testCode = await fs.readFile(testFilePath, 'utf-8');
+      const currentImplementation = await fs.readFile(implementationPath, 'utf-8').catch(() => '');
+
+      try {
+        const { system, prompt } = await buildGenerationPrompt({
+          testResults: fileResult,
+          testCode,
+          testFilePath,
+          implementationPath,
+          projectPath,
+          currentImplementation,
+          model: new ModelLadder(config).current,
+        }, config);
+
+        console.log(chalk.blue(`\n=== ${path.relative(projectPath, testFilePath)} ===`));
+        console.log(chalk.cyan('\n--- System prompt ---'));
+        console.log(system);
+        console.log(chalk.cyan('\n--- User prompt ---'));
+        console.log(prompt);
+      } catch (error) {
+        console.error(chalk.red(`Error building the prompt for ${testFilePath}: ${error instanceof Error ? error.message : String(error)}`));
+        process.exitCode = 1;
+      }
+    }
+  });
+
+// Add a command to manage the AI response cache
+const cacheCommand = program
+  .command('cache')
+  .description('Manage the cache of AI responses');
+
+cacheCommand
+  .command('clear')
+  .description('Remove every cached AI response')
+  .option('-p, --project <path>', 'Path to the project', '.')
+  .option('--log-level <level>', 'Set log level (debug, info, warn, error)', parseLogLevel, 'warn')
+  .action(async (options) => {
+    logger.configure({ level: options.logLevel });
+
+    const config = await loadConfig(options);
+    const dir = getCacheDir(config, path.resolve(options.project));
+    const removed = await new ResponseCache(dir, 0).clear();
+
+    console.log(chalk.green(`Removed ${removed} cached response${removed === 1 ? '' : 's'} from ${dir}`));
+  });
+
 // Add a diagnostics command to help debug issues
 program
   .command('diagnose')
@@ -203,9 +387,11 @@ program
     // Check Node.js version
     console.log(`Node.js version: ${process.version}`);
 
-    // Check OpenAI API key
+    // Check provider API keys
     const hasApiKey = !!process.env.OPENAI_API_KEY;
     console.log(`OpenAI API key: ${hasApiKey ? chalk.green('Present') : chalk.red('Missing')}`);
+    const hasAnthropicKey = !!process.env.ANTHROPIC_API_KEY;
+    console.log(`Anthropic API key: ${hasAnthropicKey ? chalk.green('Present') : chalk.gray('Not set')}`);
 
     // Check Vitest installation
     try {
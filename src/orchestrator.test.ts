@@ -0,0 +1,98 @@
+// src/orchestrator.test.ts
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { startTddAiLoop } from './orchestrator.js';
+import { loadConfig } from './utils/config.js';
+import { logger } from './utils/logger.js';
+import { StatusUpdate } from './types.js';
+
+const repoRoot = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const exampleDir = path.join(repoRoot, 'example');
+
+// Passes the first assertion of example/testing.test.ts only
+const WRONG_IMPLEMENTATION = `export function hello(): string {
+  return 'hello world';
+}
+`;
+
+describe('startTddAiLoop', () => {
+  let projectPath: string;
+
+  beforeEach(async () => {
+    // A copy of the example project, using this repo's Vitest
+    projectPath = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'tdd-ai-loop-')));
+    await fs.copyFile(path.join(exampleDir, 'testing.test.ts'), path.join(projectPath, 'testing.test.ts'));
+    await fs.copyFile(path.join(exampleDir, 'vitest.config.js'), path.join(projectPath, 'vitest.config.js'));
+    // A suite that already passes, which targeted reruns skip
+    await fs.copyFile(path.join(exampleDir, 'calculator.test.ts'), path.join(projectPath, 'calculator.test.ts'));
+    await fs.copyFile(path.join(exampleDir, 'calculator.ts'), path.join(projectPath, 'calculator.ts'));
+    await fs.writeFile(path.join(projectPath, 'testing.ts'), 'export {};\n');
+    await fs.writeFile(path.join(projectPath, 'package.json'), JSON.stringify({ type: 'module', devDependencies: { vitest: '*' } }));
+    await fs.symlink(path.join(repoRoot, 'node_modules'), path.join(projectPath, 'node_modules'), 'dir');
+  });
+
+  afterEach(async () => {
+    await fs.rm(projectPath, { recursive: true, force: true });
+  });
+
+  it('drives the scripted implementations until the tests pass', async () => {
+    logger.configure({ level: 'error' });
+    const config = await loadConfig({ aiProvider: 'scripted', logLevel: 'error' });
+    const implementation = await fs.readFile(path.join(exampleDir, 'testing.ts'), 'utf-8');
+    config.ai.script = {
+      implementations: [WRONG_IMPLEMENTATION, implementation],
+      onExhausted: 'error',
+    };
+    config.project.testFilePattern = '*.test.ts';
+    config.project.waitBetweenAttempts = 0;
+
+    const updates: StatusUpdate[] = [];
+    const loop = await startTddAiLoop({ projectPath, onUpdate: update => updates.push(update) }, config);
+
+    try {
+      const statuses = updates.map(update => update.status).filter(status => status !== 'generation_progress');
+      expect(statuses).toEqual([
+        'running_tests',
+        'validation_waiting',
+        'generating_code',
+        'implementation_updated',
+        'running_tests',
+        'validation_waiting',
+        'generating_code',
+        'implementation_updated',
+        'running_tests',
+        'success',
+      ]);
+
+      // Each generation streams its progress before the implementation is written
+      const progress = updates.filter(update => update.status === 'generation_progress');
+      expect(progress.length).toBeGreaterThanOrEqual(2);
+      expect(progress.every(update => update.file === path.join(projectPath, 'testing.ts'))).toBe(true);
+      expect(progress[progress.length - 1].progress?.characters).toBeGreaterThan(0);
+
+      const state = loop.getState();
+      expect(state.allTestsPassing).toBe(true);
+      expect(state.attempts).toBe(3);
+      expect(state.history.map(attempt => ({
+        attempt: attempt.attempt,
+        implementation: attempt.implementation,
+        passing: attempt.testResults?.passingTests,
+        failing: attempt.testResults?.failingTests,
+        scopes: attempt.testRuns?.map(run => run.scope),
+      }))).toEqual([
+        // Implementations are recorded as written, without surrounding whitespace. Counts cover the
+        // whole suite, including the calculator tests that targeted runs skip.
+        { attempt: 1, implementation: WRONG_IMPLEMENTATION.trim(), passing: 5, failing: 1, scopes: ['full'] },
+        { attempt: 2, implementation: implementation.trim(), passing: 5, failing: 1, scopes: ['targeted'] },
+        { attempt: 3, implementation: '', passing: 6, failing: 0, scopes: ['targeted', 'full'] },
+      ]);
+
+      expect((await fs.readFile(path.join(projectPath, 'testing.ts'), 'utf-8')).trim()).toBe(implementation.trim());
+    } finally {
+      await loop.stop();
+    }
+  }, 120_000);
+});
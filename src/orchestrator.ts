@@ -1,18 +1,31 @@
 // src/orchestrator.ts
 import fs from 'fs/promises';
+import os from 'os';
 import path from 'path';
-import { runTests, stopTests } from './test-runner.js';
-import { generateImplementation, applyGeneratedCode, initializeAI } from './ai-service.js';
+import { runTests, closeTestRunners } from './test-runner.js';
+import { generateImplementation, generateWithAgent, applyGeneratedCode, initializeAI } from './ai-service.js';
+import { generateBestCandidate } from './candidates.js';
+import { checkCoverage, formatCoverage } from './coverage.js';
+import { applyFileChanges } from './utils/file-changes.js';
 import { startWatcher, stopWatcher } from './watcher.js';
 import { logger } from './utils/logger.js';
-import { validateTests, isValidationOverridden, setValidationOverride, setOpenAIClient } from './utils/test-validator.js';
+import { validateTests, isValidationOverridden, setValidationOverride, setAIProvider } from './utils/test-validator.js';
 import { TddAiConfig } from './utils/config.js';
+import { UsageTracker, formatUsage } from './utils/usage.js';
+import { ModelLadder } from './utils/model-ladder.js';
+import { createResponseCache } from './utils/response-cache.js';
 import {
   OrchestratorOptions,
   TddAiState,
   StatusUpdate,
   ImplementationAttempt,
-  TestValidationStatus
+  TestValidationStatus,
+  GenerateOptions,
+  GenerateResult,
+  TestResult,
+  TestRunOptions,
+  TestRunRecord,
+  TestFileResult
 } from './types.js';
 
 /**
@@ -30,25 +43,41 @@ export async function startTddAiLoop(
 }> {
   const {
     projectPath,
-    onUpdate = console.log,
+    onUpdate: emitUpdate = console.log,
     onValidationIssue = async () => false, // Default: don't override
+    signal,
   } = options;
 
   // Use config values instead of defaults
   const testPattern = config.project.testFilePattern;
   const maxAttempts = config.project.maxAttempts;
+  const candidateCount = Math.max(1, config.ai.candidates || 1);
   const skipValidation = !config.validation.enabled;
 
   // Initialize the AI service and share it with the test validator
   logger.info('Initializing AI service...');
-  const aiClient = initializeAI(config);
-  setOpenAIClient(aiClient); // Share the client with test validator
+  const usageTracker = new UsageTracker(config);
+  const aiProvider = await initializeAI(config, {
+    projectPath,
+    usageTracker,
+    // Retries happen inside the provider, so they don't use up TDD attempts
+    onRetry: (retry) => onUpdate({
+      status: 'retrying',
+      message: `AI request failed: ${retry.reason}`,
+      attempt: state.attempts,
+      retry,
+    }),
+  });
+  setAIProvider(aiProvider, createResponseCache(config, projectPath)); // Share the provider with test validator
 
   logger.info(`Starting TDD-AI loop for project: ${projectPath}`);
   logger.info(`Test pattern: ${testPattern}`);
   logger.info(`Maximum attempts: ${maxAttempts}`);
   logger.info(`AI provider: ${config.ai.provider}`);
   logger.info(`AI model: ${config.ai.model}`);
+  if (config.budget?.maxTokens !== undefined || config.budget?.maxCostUsd !== undefined) {
+    logger.info(`Session budget: ${config.budget.maxTokens ?? 'unlimited'} tokens, $${config.budget.maxCostUsd ?? 'unlimited'}`);
+  }
 
   // State to track progress
   const state: TddAiState = {
@@ -56,8 +85,218 @@ export async function startTddAiLoop(
     attempts: 0,
     allTestsPassing: false,
     history: [],
+    usage: usageTracker.getUsage(),
+    diagnosticInfo: {
+      systemInfo: {
+        nodeVersion: process.version,
+        platform: process.platform,
+        arch: process.arch,
+        cpuCores: os.cpus().length,
+        memoryTotal: os.totalmem(),
+        memoryFree: os.freemem(),
+      },
+      runtimeInfo: {
+        startTime: new Date(),
+        testRuns: 0,
+        generationRuns: 0,
+        errorCount: 0,
+      },
+    },
   };
 
+  /**
+   * Sends a status update, keeping the runtime counters and session usage in sync
+   */
+  function onUpdate(update: StatusUpdate): void {
+    if (update.status === 'error') {
+      state.diagnosticInfo!.runtimeInfo.errorCount++;
+    }
+    syncUsage();
+    emitUpdate(update);
+  }
+
+  function syncUsage(): void {
+    state.usage = usageTracker.getUsage();
+    state.diagnosticInfo!.runtimeInfo.usage = state.usage;
+  }
+
+  /**
+   * Stops the loop once the session budget is used up
+   * @returns True if the budget has been exceeded
+   */
+  function checkBudget(): boolean {
+    const exceeded = usageTracker.checkBudget();
+    if (!exceeded) {
+      return false;
+    }
+
+    state.budgetExceeded = true;
+    logger.warn(`${exceeded}. Stopping the TDD-AI loop.`);
+    logger.info(`Session usage: ${formatUsage(usageTracker.getUsage())}`);
+    onUpdate({
+      status: 'budget_exceeded',
+      message: exceeded,
+      attempt: state.attempts,
+      usage: usageTracker.getUsage(),
+    });
+    return true;
+  }
+
+  // Chooses the model for each attempt
+  const modelLadder = new ModelLadder(config);
+
+  // Aborts the in-flight generation when the loop is stopped
+  let activeGeneration: AbortController | null = null;
+
+  signal?.addEventListener('abort', () => {
+    logger.info('Stop requested, cancelling the TDD-AI loop');
+    state.running = false;
+    activeGeneration?.abort();
+  });
+
+  /**
+   * Measures coverage of the implementation files written this session, once all tests pass
+   */
+  async function reportCoverage(): Promise<void> {
+    const implementationFiles = Array.from(new Set(state.history.flatMap(attempt => [
+      ...(attempt.fileUpdated ? [attempt.fileUpdated] : []),
+      ...(attempt.files ?? []).map(file => file.path),
+    ])));
+
+    activeGeneration = new AbortController();
+    const report = await checkCoverage({
+      projectPath,
+      implementationFiles,
+      model: modelLadder.current,
+      signal: activeGeneration.signal,
+      shouldStop: () => !state.running || checkBudget(),
+    }, config);
+    activeGeneration = null;
+
+    if (report) {
+      state.coverage = report;
+      onUpdate({
+        status: 'coverage_report',
+        message: formatCoverage(report),
+        coverage: report,
+        usage: usageTracker.getUsage(),
+      });
+    }
+  }
+
+  // Failing test files and names from the last run; the next attempt reruns just these first
+  let targets: { files: string[]; testNames?: string[] } | null = null;
+
+  // Latest result of every test file in the suite, keyed by absolute path. Targeted runs update
+  // the tests they reran, so attempts are always compared on whole-suite counts.
+  let suiteResults = new Map<string, TestFileResult>();
+
+  /**
+   * Runs the tests for an attempt. When earlier tests failed, only those are rerun; once they pass
+   * the whole suite runs to confirm, so success is only ever declared from a full run.
+   * @param testRuns - Receives a record of each run
+   * @returns Results of the last run
+   */
+  async function runAttemptTests(testRuns: TestRunRecord[]): Promise<TestResult> {
+    if (targets) {
+      const targeted = await runTimedTests('targeted', { projectPath, ...targets }, testRuns);
+      if (!targeted.success) {
+        return targeted;
+      }
+      logger.info('Targeted tests pass, confirming with the full suite');
+    }
+
+    return runTimedTests('full', { projectPath }, testRuns);
+  }
+
+  async function runTimedTests(scope: TestRunRecord['scope'], options: TestRunOptions, testRuns: TestRunRecord[]): Promise<TestResult> {
+    const startedAt = Date.now();
+    const result = await runTests(options, config);
+    state.diagnosticInfo!.runtimeInfo.testRuns++;
+
+    const record: TestRunRecord = {
+      scope,
+      files: options.files,
+      testNames: options.testNames,
+      durationMs: Date.now() - startedAt,
+      success: result.success,
+      passingTests: result.results?.summary.passed || 0,
+      failingTests: result.results?.summary.failed || 0,
+    };
+    testRuns.push(record);
+    logger.info(`${scope === 'full' ? 'Full' : 'Targeted'} test run took ${record.durationMs}ms (${record.passingTests} passed, ${record.failingTests} failed)`);
+
+    if (result.results) {
+      updateSuiteResults(scope, options, result.results.files);
+    }
+    return result;
+  }
+
+  /**
+   * Merges a run's file results into suiteResults. A full run replaces them; a targeted run
+   * replaces the files it reran, or just the tests in them when it was filtered by name.
+   */
+  function updateSuiteResults(scope: TestRunRecord['scope'], options: TestRunOptions, files: TestFileResult[]): void {
+    if (scope === 'full') {
+      suiteResults = new Map();
+    }
+
+    for (const file of files) {
+      const key = path.resolve(projectPath, file.file);
+      const previous = suiteResults.get(key);
+      if (!previous || !options.testNames?.length || file.error) {
+        suiteResults.set(key, file);
+        continue;
+      }
+
+      const rerun = new Map(file.tests.map(test => [test.name.trim(), test]));
+      const tests = previous.tests.map(test => rerun.get(test.name.trim()) ?? test);
+      const added = file.tests.filter(test => !previous.tests.some(known => known.name.trim() === test.name.trim()));
+      suiteResults.set(key, {
+        ...previous,
+        success: file.success && tests.every(test => test.success),
+        tests: [...tests, ...added],
+      });
+    }
+  }
+
+  /**
+   * Counts the tests in suiteResults
+   */
+  function countSuiteResults(): { totalTests: number; passingTests: number; failingTests: number } {
+    const tests = Array.from(suiteResults.values()).flatMap(file => file.tests);
+    const passingTests = tests.filter(test => test.success).length;
+    return { totalTests: tests.length, passingTests, failingTests: tests.length - passingTests };
+  }
+
+  /**
+   * Picks what the next attempt reruns first: the failing files, filtered to the failing tests
+   * unless a file failed as a whole. Returns null, meaning a full run, if a file can't be located.
+   * @param failingFiles - Files with failing tests
+   */
+  async function chooseTargets(failingFiles: TestFileResult[]): Promise<typeof targets> {
+    if (failingFiles.length === 0) {
+      return null;
+    }
+
+    const files = failingFiles.map(file => file.file);
+    for (const file of files) {
+      try {
+        await fs.access(path.resolve(projectPath, file));
+      } catch {
+        logger.debug(`Can't target ${file}, the next attempt runs the full suite`);
+        return null;
+      }
+    }
+
+    // A file that failed to load has no real test names to filter by
+    const testNames = failingFiles.some(file => file.error)
+      ? undefined
+      : failingFiles.flatMap(file => file.tests.filter(test => !test.success).map(test => test.name.trim()));
+
+    return { files, testNames };
+  }
+
   // Track last processed file change to avoid duplicates
   let lastFileChange = {
     file: '',
@@ -90,13 +329,26 @@ export async function startTddAiLoop(
         state.attempts = 0;
         state.allTestsPassing = false;
         state.history = [];
+        state.coverage = undefined;
+        targets = null;
+        suiteResults = new Map();
+        modelLadder.reset();
 
         // Run the main loop
-        await runLoop();
+        await startLoop();
       }
     },
   });
 
+  // The loop run in progress; stopping waits for it, so files written to evaluate a candidate
+  // or an agent's edits are restored before the process exits
+  let activeLoop: Promise<void> = Promise.resolve();
+
+  function startLoop(): Promise<void> {
+    activeLoop = runLoop();
+    return activeLoop;
+  }
+
   // Main feedback loop
   async function runLoop(): Promise<void> {
     logger.info('Starting TDD-AI feedback loop');
@@ -115,7 +367,8 @@ export async function startTddAiLoop(
 
       // 1. Run tests
       logger.info('Running tests...');
-      const testResults = await runTests({ projectPath });
+      const testRuns: TestRunRecord[] = [];
+      const testResults = await runAttemptTests(testRuns);
 
       if (testResults.error) {
         logger.error(`Test run error: ${testResults.error}`);
@@ -126,17 +379,17 @@ export async function startTddAiLoop(
         timestamp: new Date(),
         attempt: state.attempts,
         implementation: '', // Will be filled later
-        testResults: {
-          totalTests: testResults.results?.summary.total || 0,
-          passingTests: testResults.results?.summary.passed || 0,
-          failingTests: testResults.results?.summary.failed || 0,
-        }
+        testRuns,
+        testResults: testResults.results
+          ? countSuiteResults()
+          : { totalTests: 0, passingTests: 0, failingTests: 0 },
       };
 
       // All tests passing?
       if (testResults.success) {
         logger.info('🎉 All tests are passing!');
         state.allTestsPassing = true;
+        targets = null;
 
         // Update the current attempt with success status
         currentAttempt.success = true;
@@ -145,7 +398,12 @@ export async function startTddAiLoop(
         onUpdate({
           status: 'success',
           message: `All tests passing after ${state.attempts} attempts!`,
+          usage: usageTracker.getUsage(),
         });
+
+        if (config.coverage?.enabled) {
+          await reportCoverage();
+        }
         break;
       }
 
@@ -162,12 +420,28 @@ export async function startTddAiLoop(
         continue;
       }
 
+      // Pick the model for this attempt, escalating if the current one isn't getting anywhere
+      const previousModel = modelLadder.current;
+      const switchReason = modelLadder.startAttempt(currentAttempt.testResults?.passingTests || 0);
+      if (switchReason) {
+        logger.info(`Switching model from ${previousModel} to ${modelLadder.current}: ${switchReason}`);
+        onUpdate({
+          status: 'model_switched',
+          message: `Switched to ${modelLadder.current} (${switchReason})`,
+          attempt: state.attempts,
+          model: modelLadder.current,
+          previousModel,
+        });
+      }
+      currentAttempt.model = modelLadder.current;
+
       // Get all files with failing tests regardless of their success flag
       const filesWithFailingTests = testResults.results.files.filter(file =>
         file.tests.some((test: { success: boolean }) => !test.success)
       );
 
       logger.info(`Found ${filesWithFailingTests.length} files with failing tests out of ${testResults.results.files.length} total`);
+      targets = await chooseTargets(filesWithFailingTests);
 
       // Collect failure details for the attempt record
       if (!currentAttempt.testResults) {
@@ -194,6 +468,11 @@ export async function startTddAiLoop(
 
       // Process the failing files (or all files with failing tests)
       for (const fileResult of filesWithFailingTests.length > 0 ? filesWithFailingTests : testResults.results.files) {
+        // Tests still run once the budget is used up, but no further AI calls are made
+        if (checkBudget()) {
+          break;
+        }
+
         logger.info(`Processing failing file: ${fileResult.file}`);
         logger.debug(`File has ${fileResult.tests.length} tests, ${fileResult.tests.filter(t => !t.success).length} failing`);
 
@@ -300,10 +579,16 @@ export async function startTddAiLoop(
           logger.info('Implementation file does not exist yet, will create it');
         }
 
+        // Validation may have used up the rest of the budget
+        if (checkBudget()) {
+          break;
+        }
+
         onUpdate({
           status: 'generating_code',
           file: implementationPath,
           attempt: state.attempts,
+          model: modelLadder.current,
         });
 
         // 3. Generate implementation
@@ -311,10 +596,14 @@ export async function startTddAiLoop(
 
         // Get previous attempts for this file to give the AI more context
         const previousAttemptsForFile = state.history
-          .filter(attempt => attempt.fileUpdated === implementationPath)
+          .filter(attempt =>
+            attempt.fileUpdated === implementationPath ||
+            attempt.files?.some(file => file.path === implementationPath)
+          )
           .map(attempt => ({
             attempt: attempt.attempt,
             implementation: attempt.implementation,
+            explanation: attempt.explanation,
             testResults: attempt.testResults
           }));
 
@@ -322,16 +611,69 @@ export async function startTddAiLoop(
           logger.info(`Found ${previousAttemptsForFile.length} previous attempts for this file`);
         }
 
-        const generated = await generateImplementation({
+        activeGeneration = new AbortController();
+        const generateOptions: GenerateOptions = {
           testResults: fileResult,
           testCode,
+          testFilePath,
           implementationPath,
+          projectPath,
           currentImplementation,
-          previousAttempts: previousAttemptsForFile
-        }, config);
+          previousAttempts: previousAttemptsForFile,
+          model: modelLadder.current,
+          signal: activeGeneration.signal,
+          onProgress: (progress) => onUpdate({
+            status: 'generation_progress',
+            file: implementationPath,
+            attempt: state.attempts,
+            progress,
+          }),
+          onToolCall: (toolCall) => onUpdate({
+            status: 'agent_tool_call',
+            file: implementationPath,
+            attempt: state.attempts,
+            toolCall,
+          }),
+        };
+
+        let generated: GenerateResult;
+        if (config.agent?.enabled) {
+          generated = await generateWithAgent(generateOptions, config);
+          currentAttempt.toolCalls = generated.toolCalls;
+        } else if (candidateCount > 1) {
+          const selection = await generateBestCandidate(generateOptions, config, {
+            count: candidateCount,
+            testFilePath,
+            projectPath,
+            shouldStop: () => !state.running || usageTracker.checkBudget() !== null,
+            onCandidate: (candidate) => onUpdate({
+              status: 'candidate_evaluated',
+              file: implementationPath,
+              attempt: state.attempts,
+              candidate,
+              candidateCount,
+            }),
+          });
+          generated = selection.generated;
+          currentAttempt.candidates = selection.candidates;
+        } else {
+          generated = await generateImplementation(generateOptions, config);
+        }
+        activeGeneration = null;
+        state.diagnosticInfo!.runtimeInfo.generationRuns++;
+
+        if (!state.running) {
+          logger.info('Loop stopped during generation, discarding the result');
+          break;
+        }
 
         if (!generated.success) {
           logger.error('Error generating implementation:', generated.error);
+          // Keep the agent's tool calls in the history even though it produced nothing usable
+          if (generated.toolCalls?.length) {
+            currentAttempt.error = generated.error;
+            state.history.push(currentAttempt);
+          }
           onUpdate({
             status: 'error',
             message: `Error generating implementation: ${generated.error}`,
@@ -339,7 +681,7 @@ export async function startTddAiLoop(
           continue;
         }
 
-        if (!generated.code) {
+        if (!generated.code && !generated.files?.length) {
           logger.warn('AI returned success but no code was generated');
           onUpdate({
             status: 'error',
@@ -348,15 +690,25 @@ export async function startTddAiLoop(
           continue;
         }
 
-        logger.info(`Generated implementation (${generated.code.length} characters)`);
-        logger.debug(`Implementation preview: ${generated.code.substring(0, 300)}${generated.code.length > 300 ? '...' : ''}`);
-
         // 4. Apply the generated code
-        logger.info('Applying generated code to file...');
-        const applied = await applyGeneratedCode({
-          code: generated.code,
-          implementationPath,
-        });
+        let applied: boolean;
+        if (generated.files?.length) {
+          logger.info(`Applying generated changes to ${generated.files.length} files...`);
+          const result = await applyFileChanges(generated.files);
+          applied = result.success;
+          if (!applied) {
+            logger.error(`Error applying file changes: ${result.error}`);
+          }
+        } else {
+          logger.info(`Generated implementation (${generated.code!.length} characters)`);
+          logger.debug(`Implementation preview: ${generated.code!.substring(0, 300)}${generated.code!.length > 300 ? '...' : ''}`);
+
+          logger.info('Applying generated code to file...');
+          applied = await applyGeneratedCode({
+            code: generated.code!,
+            implementationPath,
+          });
+        }
 
         if (!applied) {
           logger.error(`Error applying generated code to ${implementationPath}`);
@@ -370,8 +722,11 @@ export async function startTddAiLoop(
         logger.info('Implementation applied successfully');
 
         // Update the current attempt with the implementation details
-        currentAttempt.implementation = generated.code;
+        currentAttempt.implementation = generated.code ?? currentImplementation;
+        currentAttempt.explanation = generated.reasoning;
         currentAttempt.fileUpdated = implementationPath;
+        currentAttempt.edits = generated.edits;
+        currentAttempt.files = generated.files;
         currentAttempt.success = false; // We'll know on next run if it was successful
 
         // Add to history
@@ -381,34 +736,46 @@ export async function startTddAiLoop(
           status: 'implementation_updated',
           file: implementationPath,
           attempt: state.attempts,
+          explanation: generated.reasoning,
         });
       }
 
+      if (state.budgetExceeded) {
+        break;
+      }
+
       // Slight delay before next attempt
       logger.debug('Waiting before next attempt...');
-      await new Promise(resolve => setTimeout(resolve, 2000));
+      await new Promise(resolve => setTimeout(resolve, config.project.waitBetweenAttempts));
     }
 
-    if (state.attempts >= maxAttempts && !state.allTestsPassing) {
+    if (state.attempts >= maxAttempts && !state.allTestsPassing && !state.budgetExceeded) {
       logger.warn(`Reached maximum number of attempts (${maxAttempts}) without passing all tests.`);
       onUpdate({
         status: 'max_attempts_reached',
         message: `Reached maximum number of attempts (${maxAttempts}) without passing all tests.`,
+        usage: usageTracker.getUsage(),
       });
     }
   }
 
   // Start the loop
-  await runLoop();
+  await startLoop();
 
   // Cleanup function
   return {
     stop: async (): Promise<void> => {
       logger.info('Stopping TDD-AI loop...');
       state.running = false;
+      activeGeneration?.abort();
+      await activeLoop.catch(() => undefined);
       await stopWatcher(watcher);
+      await closeTestRunners();
       logger.info('TDD-AI loop stopped');
     },
-    getState: (): TddAiState => ({ ...state }),
+    getState: (): TddAiState => {
+      syncUsage();
+      return { ...state };
+    },
   };
 }
\ No newline at end of file
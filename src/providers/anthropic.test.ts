@@ -0,0 +1,130 @@
+// src/providers/anthropic.test.ts
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { AnthropicProvider } from './anthropic.js';
+import { AiProviderError } from './errors.js';
+import { TddAiConfig } from '../utils/config.js';
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: Record<string, unknown>;
+}
+
+// Stands in for the Messages API; each test sets how it answers
+let respond: (response: http.ServerResponse) => void;
+let received: ReceivedRequest | undefined;
+
+const server = http.createServer((request, response) => {
+  let body = '';
+  request.on('data', chunk => body += chunk);
+  request.on('end', () => {
+    received = { headers: request.headers, body: JSON.parse(body) };
+    respond(response);
+  });
+});
+
+function reply(status: number, body: string, headers: Record<string, string> = {}): (response: http.ServerResponse) => void {
+  return (response) => {
+    response.writeHead(status, { 'content-type': 'application/json', ...headers });
+    response.end(body);
+  };
+}
+
+describe('AnthropicProvider', () => {
+  let provider: AnthropicProvider;
+
+  beforeAll(async () => {
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    provider = new AnthropicProvider({
+      ai: {
+        provider: 'anthropic',
+        model: 'claude-test',
+        temperature: 0.2,
+        timeout: 5000,
+        apiKey: 'test-key',
+        apiEndpoint: `http://127.0.0.1:${port}`,
+      },
+    } as TddAiConfig);
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  async function completeError(): Promise<AiProviderError> {
+    const error = await provider.complete({ messages: [{ role: 'user', content: 'Hi' }] }).catch(error => error);
+    expect(error).toBeInstanceOf(AiProviderError);
+    return error;
+  }
+
+  it('sends a Messages API request and reads the reply', async () => {
+    respond = reply(200, JSON.stringify({
+      model: 'claude-test-20250101',
+      content: [{ type: 'text', text: 'Hello' }, { type: 'text', text: ' there' }],
+      stop_reason: 'end_turn',
+      usage: { input_tokens: 12, output_tokens: 3 },
+    }));
+
+    const result = await provider.complete({ system: 'Be brief', messages: [{ role: 'user', content: 'Hi' }] });
+
+    expect(result).toEqual({
+      text: 'Hello there',
+      model: 'claude-test-20250101',
+      stopReason: 'end_turn',
+      usage: { inputTokens: 12, outputTokens: 3 },
+    });
+    expect(received?.headers).toMatchObject({ 'x-api-key': 'test-key', 'anthropic-version': '2023-06-01' });
+    expect(received?.body).toMatchObject({
+      model: 'claude-test',
+      system: 'Be brief',
+      messages: [{ role: 'user', content: 'Hi' }],
+      max_tokens: 4096,
+    });
+  });
+
+  it('reports a rejected API key as an auth error', async () => {
+    respond = reply(401, JSON.stringify({ type: 'error', error: { type: 'authentication_error', message: 'invalid x-api-key' } }));
+
+    const error = await completeError();
+
+    expect(error).toMatchObject({ type: 'auth', status: 401 });
+    expect(error.message).toContain('invalid x-api-key');
+  });
+
+  it('passes on the Retry-After of a rate limit', async () => {
+    respond = reply(429, JSON.stringify({ type: 'error', error: { type: 'rate_limit_error', message: 'slow down' } }), { 'retry-after': '7' });
+
+    expect(await completeError()).toMatchObject({ type: 'rate_limit', status: 429, retryAfterMs: 7000 });
+  });
+
+  it('reports a body that is not JSON as an invalid response', async () => {
+    respond = reply(200, '<html>Bad gateway</html>', { 'content-type': 'text/html' });
+
+    const error = await completeError();
+
+    expect(error.type).toBe('invalid_response');
+    expect(error.message).toContain('<html>Bad gateway</html>');
+  });
+
+  it('streams text deltas', async () => {
+    respond = (response) => {
+      response.writeHead(200, { 'content-type': 'text/event-stream' });
+      const events = [
+        { type: 'message_start', message: { model: 'claude-test-20250101', usage: { input_tokens: 5 } } },
+        { type: 'content_block_delta', delta: { type: 'text_delta', text: 'Hel' } },
+        { type: 'content_block_delta', delta: { type: 'text_delta', text: 'lo' } },
+        { type: 'message_delta', delta: { stop_reason: 'end_turn' }, usage: { output_tokens: 2 } },
+      ];
+      response.end(events.map(event => `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`).join(''));
+    };
+
+    const deltas: string[] = [];
+    const result = await provider.stream({ messages: [{ role: 'user', content: 'Hi' }] }, delta => deltas.push(delta));
+
+    expect(deltas).toEqual(['Hel', 'lo']);
+    expect(result).toEqual({ text: 'Hello', model: 'claude-test-20250101', stopReason: 'end_turn', usage: { inputTokens: 5, outputTokens: 2 } });
+    expect(received?.body.stream).toBe(true);
+  });
+});
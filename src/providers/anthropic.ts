@@ -0,0 +1,177 @@
+// src/providers/anthropic.ts
+import { AiProvider, AiCompletionRequest, AiCompletionResult, AiJsonResult } from '../types.js';
+import { TddAiConfig } from '../utils/config.js';
+import { AiProviderError } from './errors.js';
+import { ApiErrorBody, estimateTokens, getApiErrorMessage, parseJsonReply, postJson, readJsonBody, readSseData } from './helpers.js';
+
+const PROVIDER = 'anthropic';
+const DEFAULT_ANTHROPIC_ENDPOINT = 'https://api.anthropic.com';
+const ANTHROPIC_VERSION = '2023-06-01';
+
+interface AnthropicUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+}
+
+// The parts of a Messages API reply we read
+interface AnthropicMessage {
+  model?: string;
+  content?: Array<{ type: string; text?: string }>;
+  stop_reason?: string;
+  usage?: AnthropicUsage;
+}
+
+// The parts of a streamed Messages API event we read
+interface AnthropicStreamEvent {
+  type: string;
+  message?: { model?: string; usage?: AnthropicUsage };
+  delta?: { type?: string; text?: string; stop_reason?: string };
+  usage?: AnthropicUsage;
+  error?: { type?: string; message?: string };
+}
+
+/**
+ * AI provider backed by the Anthropic Messages API
+ */
+export class AnthropicProvider implements AiProvider {
+  readonly name = PROVIDER;
+  private readonly apiKey: string;
+  private readonly baseURL: string;
+
+  constructor(private readonly config: TddAiConfig) {
+    if (!config.ai.apiKey) {
+      throw new AiProviderError(
+        'No Anthropic API key provided. Set ANTHROPIC_API_KEY environment variable.',
+        'auth',
+        { provider: PROVIDER }
+      );
+    }
+
+    this.apiKey = config.ai.apiKey;
+    this.baseURL = (config.ai.apiEndpoint || DEFAULT_ANTHROPIC_ENDPOINT).replace(/\/+$/, '');
+  }
+
+  get model(): string {
+    return this.config.ai.model || 'claude-3-5-sonnet-latest';
+  }
+
+  async complete(request: AiCompletionRequest): Promise<AiCompletionResult> {
+    const response = await this.post(request, false);
+    const body = await readJsonBody<AnthropicMessage | null>(response, PROVIDER);
+
+    const text = Array.isArray(body?.content)
+      ? body.content
+        .filter(block => block?.type === 'text')
+        .map(block => block.text ?? '')
+        .join('')
+      : '';
+
+    return {
+      text,
+      model: body?.model || request.model || this.model,
+      stopReason: body?.stop_reason,
+      usage: body?.usage ? {
+        inputTokens: body.usage.input_tokens || 0,
+        outputTokens: body.usage.output_tokens || 0,
+      } : undefined,
+    };
+  }
+
+  async completeJson<T = unknown>(request: AiCompletionRequest): Promise<AiJsonResult<T>> {
+    // The Messages API has no JSON mode, so the reply may wrap the object in prose or code fences
+    const result = await this.complete({
+      ...request,
+      system: `${request.system || ''}\nRespond with the JSON object only.`.trim(),
+    });
+
+    return { ...result, data: parseJsonReply<T>(result.text, PROVIDER) };
+  }
+
+  async stream(request: AiCompletionRequest, onText: (delta: string) => void): Promise<AiCompletionResult> {
+    const response = await this.post(request, true);
+
+    let text = '';
+    let model = request.model || this.model;
+    let stopReason: string | undefined;
+    let inputTokens = 0;
+    let outputTokens = 0;
+
+    for await (const data of readSseData(response.body)) {
+      let event: AnthropicStreamEvent;
+      try {
+        event = JSON.parse(data);
+      } catch {
+        continue;
+      }
+
+      switch (event.type) {
+        case 'message_start':
+          model = event.message?.model || model;
+          inputTokens = event.message?.usage?.input_tokens || 0;
+          break;
+        case 'content_block_delta':
+          if (event.delta?.type === 'text_delta' && event.delta.text) {
+            text += event.delta.text;
+            onText(event.delta.text);
+          }
+          break;
+        case 'message_delta':
+          stopReason = event.delta?.stop_reason || stopReason;
+          outputTokens = event.usage?.output_tokens || outputTokens;
+          break;
+        case 'error':
+          throw new AiProviderError(
+            `Anthropic stream error: ${event.error?.message || 'unknown error'}`,
+            event.error?.type === 'overloaded_error' ? 'server' : 'unknown',
+            { provider: PROVIDER }
+          );
+      }
+    }
+
+    return { text, model, stopReason, usage: { inputTokens, outputTokens } };
+  }
+
+  countTokens(text: string): number {
+    return estimateTokens(text);
+  }
+
+  private post(request: AiCompletionRequest, stream: boolean): Promise<Response> {
+    return postJson(`${this.baseURL}/v1/messages`, {
+      provider: PROVIDER,
+      headers: {
+        'x-api-key': this.apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+      },
+      body: {
+        model: request.model || this.model,
+        max_tokens: request.maxTokens ?? this.config.ai.maxTokens ?? 4096,
+        system: request.system,
+        messages: request.messages,
+        temperature: request.temperature ?? this.config.ai.temperature ?? 0.2,
+        ...(stream ? { stream: true } : {}),
+      },
+      timeout: this.config.ai.timeout || 60000,
+      signal: request.signal,
+      describeError: describeAnthropicError,
+    });
+  }
+}
+
+/**
+ * Builds an error message from a Messages API error response
+ */
+function describeAnthropicError(status: number, body: ApiErrorBody | null): string {
+  const detail = getApiErrorMessage(body) || `HTTP ${status}`;
+
+  switch (status) {
+    case 401:
+    case 403:
+      return `Invalid or missing Anthropic API key: ${detail}`;
+    case 429:
+      return `Anthropic API rate limit exceeded: ${detail}`;
+    case 529:
+      return `Anthropic API is overloaded: ${detail}`;
+    default:
+      return `Anthropic API error (${status}): ${detail}`;
+  }
+}
@@ -0,0 +1,84 @@
+// src/providers/cache.test.ts
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { CachingProvider } from './cache.js';
+import { ResponseCache } from '../utils/response-cache.js';
+import { AiProvider, AiCompletionRequest, AiCompletionResult, AiJsonResult } from '../types.js';
+
+// Answers every request with the next reply, counting the calls that reach it
+function createInner(replies: string[]): AiProvider & { calls: number } {
+  const inner = {
+    name: 'fake',
+    model: 'fake-model',
+    calls: 0,
+    async complete(): Promise<AiCompletionResult> {
+      return { text: replies[inner.calls++] ?? '', model: 'fake-model' };
+    },
+    async completeJson<T>(): Promise<AiJsonResult<T>> {
+      const text = replies[inner.calls++] ?? '{}';
+      return { text, model: 'fake-model', data: JSON.parse(text) as T };
+    },
+    async stream(request: AiCompletionRequest, onText: (delta: string) => void): Promise<AiCompletionResult> {
+      const result = await inner.complete();
+      onText(result.text);
+      return result;
+    },
+    countTokens: (text: string) => text.length,
+  };
+  return inner;
+}
+
+const request: AiCompletionRequest = { messages: [{ role: 'user', content: 'make the tests pass' }] };
+
+describe('CachingProvider', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tdd-ai-cache-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('serves a repeated request from the cache', async () => {
+    const inner = createInner(['first', 'second']);
+    const provider = new CachingProvider(inner, new ResponseCache(dir, 60_000), 0);
+
+    expect((await provider.complete(request)).text).toBe('first');
+    expect((await provider.complete(request)).text).toBe('first');
+    expect(inner.calls).toBe(1);
+  });
+
+  it('asks again once a response is discarded', async () => {
+    const inner = createInner(['unusable', 'usable']);
+    const provider = new CachingProvider(inner, new ResponseCache(dir, 60_000), 0);
+
+    const rejected = await provider.complete(request);
+    await provider.discard(rejected);
+
+    expect((await provider.complete(request)).text).toBe('usable');
+    expect(inner.calls).toBe(2);
+  });
+
+  it('evicts a discarded cache hit', async () => {
+    const inner = createInner(['unusable', 'usable']);
+    const provider = new CachingProvider(inner, new ResponseCache(dir, 60_000), 0);
+
+    await provider.stream(request, () => {});
+    const hit = await provider.stream(request, () => {});
+    await provider.discard(hit);
+
+    expect((await provider.stream(request, () => {})).text).toBe('usable');
+  });
+
+  it('does not cache empty replies', async () => {
+    const inner = createInner(['', 'code']);
+    const provider = new CachingProvider(inner, new ResponseCache(dir, 60_000), 0);
+
+    await provider.complete(request);
+    expect((await provider.complete(request)).text).toBe('code');
+  });
+});
@@ -0,0 +1,118 @@
+// src/providers/cache.ts
+import { AiProvider, AiCompletionRequest, AiCompletionResult, AiJsonResult } from '../types.js';
+import { ResponseCache, cacheKey } from '../utils/response-cache.js';
+import { logger } from '../utils/logger.js';
+import { parseJsonReply } from './helpers.js';
+
+type CachedKind = 'text' | 'json';
+
+/**
+ * Provider wrapper that serves identical requests from an on-disk cache.
+ * Requests are keyed by provider, model, temperature and a hash of the prompt;
+ * cached responses cost no tokens and are not counted as usage.
+ * Responses the caller discards are evicted, so an unusable reply isn't served again.
+ */
+export class CachingProvider implements AiProvider {
+  // Cache key of each response handed out, for discard()
+  private readonly keys = new WeakMap<AiCompletionResult, string>();
+
+  constructor(
+    private readonly inner: AiProvider,
+    private readonly cache: ResponseCache,
+    private readonly defaultTemperature: number
+  ) {
+    logger.debug(`Caching AI responses in ${cache.dir}`);
+  }
+
+  get name(): string {
+    return this.inner.name;
+  }
+
+  get model(): string {
+    return this.inner.model;
+  }
+
+  async complete(request: AiCompletionRequest): Promise<AiCompletionResult> {
+    return this.cached(request, 'text', () => this.inner.complete(request));
+  }
+
+  async completeJson<T = unknown>(request: AiCompletionRequest): Promise<AiJsonResult<T>> {
+    const key = this.key(request, 'json');
+    const hit = await this.cache.get<AiCompletionResult>(key);
+    if (hit) {
+      logger.debug(`Serving ${request.purpose || 'AI'} response from cache (${key})`);
+      const result = { ...hit, data: parseJsonReply<T>(hit.text, this.name) };
+      this.keys.set(result, key);
+      return result;
+    }
+
+    const result = await this.inner.completeJson<T>(request);
+    await this.store(key, result);
+    this.keys.set(result, key);
+    return result;
+  }
+
+  async stream(request: AiCompletionRequest, onText: (delta: string) => void): Promise<AiCompletionResult> {
+    return this.cached(request, 'text', () => this.inner.stream(request, onText), onText);
+  }
+
+  countTokens(text: string): number {
+    return this.inner.countTokens(text);
+  }
+
+  async discard(result: AiCompletionResult): Promise<void> {
+    const key = this.keys.get(result);
+    if (key) {
+      logger.debug(`Evicting rejected response from cache (${key})`);
+      this.keys.delete(result);
+      await this.cache.delete(key);
+    }
+  }
+
+  private async cached(
+    request: AiCompletionRequest,
+    kind: CachedKind,
+    call: () => Promise<AiCompletionResult>,
+    onText?: (delta: string) => void
+  ): Promise<AiCompletionResult> {
+    const key = this.key(request, kind);
+    const hit = await this.cache.get<AiCompletionResult>(key);
+    if (hit) {
+      logger.debug(`Serving ${request.purpose || 'AI'} response from cache (${key})`);
+      onText?.(hit.text);
+      this.keys.set(hit, key);
+      return hit;
+    }
+
+    const result = await call();
+    await this.store(key, result);
+    this.keys.set(result, key);
+    return result;
+  }
+
+  private key(request: AiCompletionRequest, kind: CachedKind): string {
+    return cacheKey({
+      provider: this.inner.name,
+      model: request.model || this.inner.model,
+      temperature: request.temperature ?? this.defaultTemperature,
+      kind,
+      system: request.system || '',
+      messages: request.messages,
+      variant: request.variant,
+    });
+  }
+
+  private async store(key: string, result: AiCompletionResult): Promise<void> {
+    // Empty or cut-off replies are worth asking for again
+    if (!result.text.trim() || result.stopReason === 'max_tokens' || result.stopReason === 'length') {
+      return;
+    }
+
+    await this.cache.set<AiCompletionResult>(key, {
+      text: result.text,
+      model: result.model,
+      usage: result.usage,
+      stopReason: result.stopReason,
+    });
+  }
+}
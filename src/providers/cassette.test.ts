@@ -0,0 +1,67 @@
+// src/providers/cassette.test.ts
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { RecordingProvider, ReplayProvider } from './cassette.js';
+import { AiProvider, AiCompletionRequest, AiCompletionResult, AiJsonResult } from '../types.js';
+
+// Answers every request with the next reply
+function createInner(replies: string[]): AiProvider {
+  let calls = 0;
+  return {
+    name: 'fake',
+    model: 'fake-model',
+    async complete(): Promise<AiCompletionResult> {
+      return { text: replies[calls++], model: 'fake-model', usage: { inputTokens: 10, outputTokens: 2 } };
+    },
+    async completeJson<T>(): Promise<AiJsonResult<T>> {
+      const text = replies[calls++];
+      return { text, model: 'fake-model', data: JSON.parse(text) as T };
+    },
+    countTokens: (text: string) => text.length,
+  };
+}
+
+const request: AiCompletionRequest = { system: 'You write code', messages: [{ role: 'user', content: 'make the tests pass' }] };
+
+describe('cassettes', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tdd-ai-cassette-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('replays recorded responses in order, then repeats the last one', async () => {
+    const recorder = new RecordingProvider(createInner(['first', 'second']), dir);
+    await recorder.complete(request);
+    await recorder.complete(request);
+
+    const replay = new ReplayProvider(dir, 'fake-model');
+
+    expect(await replay.complete(request)).toEqual({ text: 'first', model: 'fake-model', usage: { inputTokens: 10, outputTokens: 2 } });
+    expect((await replay.complete(request)).text).toBe('second');
+    expect((await replay.complete(request)).text).toBe('second');
+  });
+
+  it('keeps text and JSON requests for the same prompt apart', async () => {
+    const recorder = new RecordingProvider(createInner(['code', '{"issues":[]}']), dir);
+    await recorder.complete(request);
+    await recorder.completeJson(request);
+
+    const replay = new ReplayProvider(dir, 'fake-model');
+
+    expect((await replay.completeJson(request)).data).toEqual({ issues: [] });
+    expect((await replay.complete(request)).text).toBe('code');
+  });
+
+  it('fails for a prompt that was never recorded', async () => {
+    const replay = new ReplayProvider(dir, 'fake-model');
+
+    await expect(replay.complete(request)).rejects.toMatchObject({ type: 'invalid_request', message: expect.stringContaining('No recorded response') });
+  });
+});
@@ -0,0 +1,189 @@
+// src/providers/cassette.ts
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { AiProvider, AiCompletionRequest, AiCompletionResult, AiJsonResult } from '../types.js';
+import { logger } from '../utils/logger.js';
+import { AiProviderError } from './errors.js';
+import { estimateTokens, parseJsonReply } from './helpers.js';
+
+type CassetteKind = 'text' | 'json';
+
+interface CassetteEntry {
+  text: string;
+  model: string;
+  usage?: AiCompletionResult['usage'];
+  stopReason?: string;
+  recordedAt: string;
+}
+
+interface Cassette {
+  key: string;
+  kind: CassetteKind;
+  provider: string;
+  request: {
+    system?: string;
+    messages: AiCompletionRequest['messages'];
+  };
+  responses: CassetteEntry[];
+}
+
+/**
+ * Computes the cassette key for a request from its kind and prompt
+ * @param request - Completion request
+ * @param kind - Whether the request expects text or JSON
+ * @returns Hex-encoded SHA-256 hash
+ */
+export function hashPrompt(request: AiCompletionRequest, kind: CassetteKind): string {
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify({ kind, system: request.system || '', messages: request.messages }))
+    .digest('hex');
+}
+
+function cassettePath(dir: string, key: string): string {
+  return path.join(dir, `${key}.json`);
+}
+
+async function readCassette(dir: string, key: string): Promise<Cassette | null> {
+  try {
+    return JSON.parse(await fs.readFile(cassettePath(dir, key), 'utf-8')) as Cassette;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Provider wrapper that records every response into cassette files
+ */
+export class RecordingProvider implements AiProvider {
+  constructor(
+    private readonly inner: AiProvider,
+    private readonly dir: string
+  ) {
+    logger.info(`Recording AI responses to ${dir}`);
+  }
+
+  get name(): string {
+    return this.inner.name;
+  }
+
+  get model(): string {
+    return this.inner.model;
+  }
+
+  async complete(request: AiCompletionRequest): Promise<AiCompletionResult> {
+    const result = await this.inner.complete(request);
+    await this.record(request, 'text', result);
+    return result;
+  }
+
+  async completeJson<T = unknown>(request: AiCompletionRequest): Promise<AiJsonResult<T>> {
+    const result = await this.inner.completeJson<T>(request);
+    await this.record(request, 'json', result);
+    return result;
+  }
+
+  async stream(request: AiCompletionRequest, onText: (delta: string) => void): Promise<AiCompletionResult> {
+    const result = await this.inner.stream(request, onText);
+    await this.record(request, 'text', result);
+    return result;
+  }
+
+  countTokens(text: string): number {
+    return this.inner.countTokens(text);
+  }
+
+  private async record(request: AiCompletionRequest, kind: CassetteKind, result: AiCompletionResult): Promise<void> {
+    const key = hashPrompt(request, kind);
+
+    try {
+      await fs.mkdir(this.dir, { recursive: true });
+
+      const cassette: Cassette = await readCassette(this.dir, key) || {
+        key,
+        kind,
+        provider: this.inner.name,
+        request: { system: request.system, messages: request.messages },
+        responses: [],
+      };
+
+      cassette.responses.push({
+        text: result.text,
+        model: result.model,
+        usage: result.usage,
+        stopReason: result.stopReason,
+        recordedAt: new Date().toISOString(),
+      });
+
+      await fs.writeFile(cassettePath(this.dir, key), JSON.stringify(cassette, null, 2));
+      logger.debug(`Recorded AI response ${cassette.responses.length} for cassette ${key}`);
+    } catch (error) {
+      // A failed recording shouldn't break the live session
+      logger.warn(`Failed to record AI response for cassette ${key}:`, error);
+    }
+  }
+}
+
+/**
+ * Provider that serves responses from cassette files without any network access.
+ * Repeated prompts replay their recorded responses in order, then repeat the last one.
+ */
+export class ReplayProvider implements AiProvider {
+  readonly name = 'replay';
+  private readonly cursors = new Map<string, number>();
+
+  constructor(
+    private readonly dir: string,
+    readonly model: string
+  ) {
+    logger.info(`Replaying AI responses from ${dir}`);
+  }
+
+  async complete(request: AiCompletionRequest): Promise<AiCompletionResult> {
+    return this.replay(request, 'text');
+  }
+
+  async completeJson<T = unknown>(request: AiCompletionRequest): Promise<AiJsonResult<T>> {
+    const result = await this.replay(request, 'json');
+    return { ...result, data: parseJsonReply<T>(result.text, this.name) };
+  }
+
+  async stream(request: AiCompletionRequest, onText: (delta: string) => void): Promise<AiCompletionResult> {
+    const result = await this.replay(request, 'text');
+    if (result.text) {
+      onText(result.text);
+    }
+    return result;
+  }
+
+  countTokens(text: string): number {
+    return estimateTokens(text);
+  }
+
+  private async replay(request: AiCompletionRequest, kind: CassetteKind): Promise<AiCompletionResult> {
+    const key = hashPrompt(request, kind);
+    const cassette = await readCassette(this.dir, key);
+
+    if (!cassette || cassette.responses.length === 0) {
+      throw new AiProviderError(
+        `No recorded response for this prompt (cassette ${key}) in ${this.dir}`,
+        'invalid_request',
+        { provider: this.name }
+      );
+    }
+
+    const index = this.cursors.get(key) || 0;
+    this.cursors.set(key, index + 1);
+
+    const entry = cassette.responses[Math.min(index, cassette.responses.length - 1)];
+    logger.debug(`Replaying response ${Math.min(index, cassette.responses.length - 1) + 1}/${cassette.responses.length} from cassette ${key}`);
+
+    return {
+      text: entry.text,
+      model: entry.model,
+      usage: entry.usage,
+      stopReason: entry.stopReason,
+    };
+  }
+}
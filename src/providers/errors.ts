@@ -0,0 +1,49 @@
+// src/providers/errors.ts
+
+export type AiProviderErrorType =
+  | 'auth'
+  | 'rate_limit'
+  | 'timeout'
+  | 'aborted'
+  | 'unreachable'
+  | 'model_not_found'
+  | 'invalid_request'
+  | 'invalid_response'
+  | 'server'
+  | 'unknown';
+
+/**
+ * Error raised by AI providers, normalized across backends
+ */
+export class AiProviderError extends Error {
+  readonly type: AiProviderErrorType;
+  readonly provider: string;
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+
+  constructor(
+    message: string,
+    type: AiProviderErrorType,
+    details: { provider: string; status?: number; retryAfterMs?: number }
+  ) {
+    super(message);
+    this.name = 'AiProviderError';
+    this.type = type;
+    this.provider = details.provider;
+    this.status = details.status;
+    this.retryAfterMs = details.retryAfterMs;
+  }
+}
+
+/**
+ * Maps an HTTP status code to an error type
+ */
+export function errorTypeFromStatus(status: number): AiProviderErrorType {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return 'rate_limit';
+  if (status === 404) return 'model_not_found';
+  if (status === 408) return 'timeout';
+  if (status >= 500) return 'server';
+  if (status >= 400) return 'invalid_request';
+  return 'unknown';
+}
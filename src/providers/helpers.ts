@@ -0,0 +1,262 @@
+// src/providers/helpers.ts
+import { AiProviderError, errorTypeFromStatus } from './errors.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Error body returned by OpenAI-style and Anthropic APIs; Ollama sends the message as a plain string
+ */
+export interface ApiErrorBody {
+  error?: string | {
+    type?: string;
+    message?: string;
+  };
+}
+
+/**
+ * Rough token estimate used when a provider has no tokenizer available
+ * @param text - Text to measure
+ * @returns Estimated token count (about four characters per token)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Extracts the outermost JSON object from a model reply
+ * @param text - Reply text, possibly surrounded by prose or code fences
+ * @returns The JSON object text, or null if none was found
+ */
+export function extractJsonObject(text: string): string | null {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+
+  if (start === -1 || end <= start) {
+    return null;
+  }
+
+  return text.substring(start, end + 1);
+}
+
+/**
+ * Parses the JSON object contained in a model reply
+ * @throws AiProviderError if the reply holds no valid JSON object
+ */
+export function parseJsonReply<T>(text: string, provider: string): T {
+  const json = extractJsonObject(text);
+
+  if (!json) {
+    throw new AiProviderError('The AI returned no JSON object', 'invalid_response', { provider });
+  }
+
+  try {
+    return JSON.parse(json) as T;
+  } catch (error) {
+    throw new AiProviderError(
+      `The AI returned malformed JSON: ${error instanceof Error ? error.message : String(error)}`,
+      'invalid_response',
+      { provider }
+    );
+  }
+}
+
+/**
+ * Reads a JSON response body
+ * @throws AiProviderError if the body is not JSON, such as an error page from a proxy
+ */
+export async function readJsonBody<T>(response: Response, provider: string): Promise<T> {
+  const text = await response.text();
+
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    throw new AiProviderError(
+      `${provider} returned a response that is not JSON: ${text.slice(0, 200) || '(empty body)'}`,
+      'invalid_response',
+      { provider, status: response.status }
+    );
+  }
+}
+
+/**
+ * Parses a Retry-After header value (seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+/**
+ * POSTs a JSON payload, enforcing a timeout and mapping transport and HTTP failures to AiProviderError
+ * @returns The successful response; the body has not been read yet
+ */
+export async function postJson(
+  url: string,
+  options: {
+    provider: string;
+    headers?: Record<string, string>;
+    body: unknown;
+    timeout: number;
+    signal?: AbortSignal;
+    describeError?: (status: number, body: ApiErrorBody | null, text: string) => string;
+  }
+): Promise<Response> {
+  const { provider, timeout, signal } = options;
+  const controller = new AbortController();
+  let timedOut = false;
+
+  const timeoutId = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeout);
+
+  const onAbort = (): void => controller.abort();
+  signal?.addEventListener('abort', onAbort);
+
+  logger.debug(`POST ${url}`);
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', ...options.headers },
+      body: JSON.stringify(options.body),
+      signal: controller.signal,
+    });
+  } catch (error) {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', onAbort);
+
+    if (timedOut) {
+      throw new AiProviderError(`${provider} request timed out after ${timeout}ms`, 'timeout', { provider });
+    }
+    if (signal?.aborted) {
+      throw new AiProviderError(`${provider} request was aborted`, 'aborted', { provider });
+    }
+
+    // fetch puts the network error, such as ECONNREFUSED, in the cause
+    const cause = error instanceof Error && error.cause instanceof Error
+      ? ` (${(error.cause as NodeJS.ErrnoException).code || error.cause.message})`
+      : '';
+    throw new AiProviderError(`Could not reach ${provider} at ${url}${cause}`, 'unreachable', { provider });
+  }
+
+  // Keep the timeout running while a streamed body is consumed, but release it once the body is done
+  const release = (): void => {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', onAbort);
+  };
+
+  if (!response.ok) {
+    const text = await response.text().catch(() => '');
+    release();
+
+    let body: ApiErrorBody | null = null;
+    try {
+      body = text ? JSON.parse(text) : null;
+    } catch {
+      body = null;
+    }
+
+    const message = options.describeError
+      ? options.describeError(response.status, body, text)
+      : `${provider} request failed (${response.status}): ${getApiErrorMessage(body) || text || response.statusText}`;
+
+    throw new AiProviderError(message, errorTypeFromStatus(response.status), {
+      provider,
+      status: response.status,
+      retryAfterMs: parseRetryAfter(response.headers.get('retry-after')),
+    });
+  }
+
+  if (!response.body) {
+    release();
+    return response;
+  }
+
+  // Wrap the body so the timer is cleared when it has been fully read
+  const reader = response.body.getReader();
+  const body = new ReadableStream<Uint8Array>({
+    async pull(streamController) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          release();
+          streamController.close();
+        } else {
+          streamController.enqueue(value);
+        }
+      } catch (error) {
+        release();
+        streamController.error(timedOut
+          ? new AiProviderError(`${provider} request timed out after ${timeout}ms`, 'timeout', { provider })
+          : signal?.aborted
+            ? new AiProviderError(`${provider} request was aborted`, 'aborted', { provider })
+            : error);
+      }
+    },
+    cancel(reason) {
+      release();
+      return reader.cancel(reason);
+    },
+  });
+
+  return new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+}
+
+/**
+ * The message of an API error body, if it has one
+ */
+export function getApiErrorMessage(body: ApiErrorBody | null): string | undefined {
+  return typeof body?.error === 'string' ? body.error : body?.error?.message;
+}
+
+/**
+ * Reads a response body line by line
+ */
+export async function* readLines(body: ReadableStream<Uint8Array> | null): AsyncGenerator<string> {
+  if (!body) return;
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for await (const chunk of body as unknown as AsyncIterable<Uint8Array>) {
+    buffer += decoder.decode(chunk, { stream: true });
+
+    let newlineIndex: number;
+    while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+      yield buffer.slice(0, newlineIndex).replace(/\r$/, '');
+      buffer = buffer.slice(newlineIndex + 1);
+    }
+  }
+
+  buffer += decoder.decode();
+  if (buffer) {
+    yield buffer;
+  }
+}
+
+/**
+ * Reads the `data:` payloads of a server-sent events stream
+ */
+export async function* readSseData(body: ReadableStream<Uint8Array> | null): AsyncGenerator<string> {
+  for await (const line of readLines(body)) {
+    if (line.startsWith('data:')) {
+      yield line.slice(5).trim();
+    }
+  }
+}
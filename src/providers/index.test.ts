@@ -0,0 +1,57 @@
+// src/providers/index.test.ts
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { createProvider, loadProviderModules, getRegisteredProviders } from './index.js';
+import { TddAiConfig } from '../utils/config.js';
+
+function configFor(provider: string, providerModules?: string[]): TddAiConfig {
+  return { ai: { provider, providerModules, model: 'echo-1', temperature: 0.2, timeout: 1000 } } as TddAiConfig;
+}
+
+describe('provider registry', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tdd-ai-providers-'));
+    // Registers through the default export, the way a CommonJS module would
+    await fs.writeFile(path.join(dir, 'echo-provider.mjs'), `
+      export default {
+        register(registerProvider) {
+          registerProvider('echo', (config) => ({
+            name: 'echo',
+            model: config.ai.model,
+            complete: async (request) => ({ text: request.messages[0].content, model: config.ai.model }),
+          }));
+        },
+      };
+    `);
+    await fs.writeFile(path.join(dir, 'not-a-provider.mjs'), 'export const name = "nothing";');
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('creates the built-in providers', async () => {
+    expect(getRegisteredProviders()).toEqual(expect.arrayContaining(['openai', 'anthropic', 'local', 'scripted']));
+    expect((await createProvider(configFor('local'))).name).toBe('local');
+  });
+
+  it('loads a provider module relative to the base directory', async () => {
+    const config = configFor('echo', ['./echo-provider.mjs']);
+    await loadProviderModules(config, dir);
+
+    const provider = await createProvider(config);
+    const result = await provider.complete({ messages: [{ role: 'user', content: 'ping' }] });
+
+    expect(result).toEqual({ text: 'ping', model: 'echo-1' });
+  });
+
+  it('rejects modules without a register function and unknown providers', async () => {
+    await expect(loadProviderModules(configFor('echo', ['./not-a-provider.mjs']), dir))
+      .rejects.toThrow('does not export a register function');
+    await expect(createProvider(configFor('missing'))).rejects.toThrow(/Unknown AI provider: missing\. Registered providers: .*openai/);
+  });
+});
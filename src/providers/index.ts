@@ -0,0 +1,114 @@
+// src/providers/index.ts
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { AiProvider } from '../types.js';
+import { TddAiConfig } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+import { OpenAiProvider } from './openai.js';
+import { AnthropicProvider } from './anthropic.js';
+import { LocalProvider } from './local.js';
+import { createScriptedProvider } from './scripted.js';
+
+export { AiProviderError } from './errors.js';
+export type { AiProviderErrorType } from './errors.js';
+
+/**
+ * Creates a provider instance from the application configuration
+ */
+export type AiProviderFactory = (config: TddAiConfig) => AiProvider | Promise<AiProvider>;
+
+// Registered provider factories, keyed by the name used in config.ai.provider
+const registry = new Map<string, AiProviderFactory>();
+
+/**
+ * Registers an AI provider so it can be selected with config.ai.provider
+ * @param name - Provider name
+ * @param factory - Factory that creates the provider from the configuration
+ */
+export function registerProvider(name: string, factory: AiProviderFactory): void {
+  if (registry.has(name)) {
+    logger.warn(`AI provider "${name}" is already registered, replacing it`);
+  }
+  registry.set(name, factory);
+  logger.debug(`Registered AI provider: ${name}`);
+}
+
+/**
+ * Names of all registered providers
+ */
+export function getRegisteredProviders(): string[] {
+  return Array.from(registry.keys());
+}
+
+/**
+ * Loads third-party provider modules listed in config.ai.providerModules.
+ * Each module must export a `register` function that receives `registerProvider`.
+ * @param config - Application configuration
+ * @param baseDir - Directory that relative module paths are resolved against
+ */
+export async function loadProviderModules(config: TddAiConfig, baseDir: string = process.cwd()): Promise<void> {
+  for (const modulePath of config.ai.providerModules || []) {
+    const specifier = modulePath.startsWith('.') || path.isAbsolute(modulePath)
+      ? pathToFileURL(path.resolve(baseDir, modulePath)).href
+      : modulePath;
+
+    logger.debug(`Loading AI provider module: ${modulePath}`);
+
+    let loaded: unknown;
+    try {
+      loaded = await import(specifier);
+    } catch (error) {
+      throw new Error(`Failed to load AI provider module "${modulePath}": ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const register = findRegisterFunction(loaded);
+    if (!register) {
+      throw new Error(`AI provider module "${modulePath}" does not export a register function`);
+    }
+
+    await register(registerProvider);
+  }
+}
+
+/**
+ * Function a provider module exports to register its providers
+ */
+type ProviderModuleRegister = (register: typeof registerProvider) => void | Promise<void>;
+
+/**
+ * Finds a provider module's register function, exported by name or on the default export
+ */
+function findRegisterFunction(loaded: unknown): ProviderModuleRegister | null {
+  const exports = isObject(loaded) ? [loaded, loaded.default] : [];
+  for (const candidate of exports) {
+    if (isObject(candidate) && typeof candidate.register === 'function') {
+      return candidate.register as ProviderModuleRegister;
+    }
+  }
+  return null;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Creates the provider selected by config.ai.provider
+ * @param config - Application configuration
+ * @returns Promise with the provider instance
+ */
+export async function createProvider(config: TddAiConfig): Promise<AiProvider> {
+  const factory = registry.get(config.ai.provider);
+
+  if (!factory) {
+    throw new Error(`Unknown AI provider: ${config.ai.provider}. Registered providers: ${getRegisteredProviders().join(', ')}`);
+  }
+
+  return factory(config);
+}
+
+// Built-in providers
+registerProvider('openai', (config) => new OpenAiProvider(config));
+registerProvider('anthropic', (config) => new AnthropicProvider(config));
+registerProvider('local', (config) => new LocalProvider(config));
+registerProvider('scripted', (config) => createScriptedProvider(config));
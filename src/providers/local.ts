@@ -0,0 +1,220 @@
+// src/providers/local.ts
+import { AiProvider, AiCompletionRequest, AiCompletionResult, AiJsonResult, AiMessage } from '../types.js';
+import { TddAiConfig } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+import { AiProviderError } from './errors.js';
+import { estimateTokens, getApiErrorMessage, parseJsonReply, postJson, readJsonBody, readLines, readSseData } from './helpers.js';
+
+const PROVIDER = 'local';
+
+const DEFAULT_LOCAL_ENDPOINTS = {
+  openai: 'http://localhost:11434/v1',
+  ollama: 'http://localhost:11434',
+};
+
+// The parts of an Ollama /api/chat reply, or of one line of its stream, we read
+interface OllamaChatReply {
+  model?: string;
+  message?: { content?: string };
+  done?: boolean;
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+interface OpenAiUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+// The parts of an OpenAI-style chat completion, or of one chunk of its stream, we read
+interface OpenAiChatReply {
+  model?: string;
+  choices?: Array<{
+    message?: { content?: string };
+    delta?: { content?: string };
+    finish_reason?: string;
+  }>;
+  usage?: OpenAiUsage;
+}
+
+/**
+ * AI provider for locally hosted models behind an OpenAI-compatible or Ollama-style API.
+ * No API key is sent.
+ */
+export class LocalProvider implements AiProvider {
+  readonly name = PROVIDER;
+  readonly baseURL: string;
+  private readonly apiStyle: 'openai' | 'ollama';
+
+  constructor(private readonly config: TddAiConfig) {
+    this.apiStyle = config.ai.localApiStyle || 'openai';
+    this.baseURL = (config.ai.apiEndpoint || DEFAULT_LOCAL_ENDPOINTS[this.apiStyle]).replace(/\/+$/, '');
+  }
+
+  get model(): string {
+    return this.config.ai.model || 'llama3';
+  }
+
+  async complete(request: AiCompletionRequest): Promise<AiCompletionResult> {
+    return this.chat(request, false);
+  }
+
+  async completeJson<T = unknown>(request: AiCompletionRequest): Promise<AiJsonResult<T>> {
+    // JSON mode is requested, but many local models ignore it and answer in prose
+    const jsonRequest = {
+      ...request,
+      system: `${request.system || ''}\nRespond with the JSON object only.`.trim(),
+    };
+
+    let result: AiCompletionResult;
+    try {
+      result = await this.chat(jsonRequest, true);
+    } catch (error) {
+      // Plenty of OpenAI-compatible servers reject response_format outright; retry without it
+      if (this.apiStyle === 'openai' && error instanceof AiProviderError && error.status === 400) {
+        logger.debug('Local server rejected JSON response format, retrying without it');
+        result = await this.chat(jsonRequest, false);
+      } else {
+        throw error;
+      }
+    }
+
+    return { ...result, data: parseJsonReply<T>(result.text, PROVIDER) };
+  }
+
+  async stream(request: AiCompletionRequest, onText: (delta: string) => void): Promise<AiCompletionResult> {
+    const response = await this.post(request, false, true);
+
+    let text = '';
+    let model = request.model || this.model;
+    let usage: AiCompletionResult['usage'];
+
+    if (this.apiStyle === 'ollama') {
+      // Ollama streams newline-delimited JSON objects
+      for await (const line of readLines(response.body)) {
+        if (!line.trim()) continue;
+        const chunk = safeParse<OllamaChatReply>(line);
+        const delta = chunk?.message?.content;
+        if (delta) {
+          text += delta;
+          onText(delta);
+        }
+        if (chunk?.done) {
+          usage = { inputTokens: chunk.prompt_eval_count || 0, outputTokens: chunk.eval_count || 0 };
+        }
+      }
+    } else {
+      for await (const data of readSseData(response.body)) {
+        if (data === '[DONE]') break;
+        const chunk = safeParse<OpenAiChatReply>(data);
+        model = chunk?.model || model;
+        // Some servers report usage in the final chunk
+        if (chunk?.usage) {
+          usage = { inputTokens: chunk.usage.prompt_tokens || 0, outputTokens: chunk.usage.completion_tokens || 0 };
+        }
+        const delta = chunk?.choices?.[0]?.delta?.content;
+        if (delta) {
+          text += delta;
+          onText(delta);
+        }
+      }
+    }
+
+    return { text, model, usage };
+  }
+
+  countTokens(text: string): number {
+    return estimateTokens(text);
+  }
+
+  private async chat(request: AiCompletionRequest, json: boolean): Promise<AiCompletionResult> {
+    const response = await this.post(request, json, false);
+
+    if (this.apiStyle === 'ollama') {
+      const body = await readJsonBody<OllamaChatReply | null>(response, PROVIDER);
+      return {
+        text: body?.message?.content || '',
+        model: body?.model || request.model || this.model,
+        usage: body?.eval_count !== undefined ? {
+          inputTokens: body.prompt_eval_count || 0,
+          outputTokens: body.eval_count || 0,
+        } : undefined,
+      };
+    }
+
+    const body = await readJsonBody<OpenAiChatReply | null>(response, PROVIDER);
+    return {
+      text: body?.choices?.[0]?.message?.content || '',
+      model: body?.model || request.model || this.model,
+      stopReason: body?.choices?.[0]?.finish_reason,
+      usage: body?.usage ? {
+        inputTokens: body.usage.prompt_tokens || 0,
+        outputTokens: body.usage.completion_tokens || 0,
+      } : undefined,
+    };
+  }
+
+  private async post(request: AiCompletionRequest, json: boolean, stream: boolean): Promise<Response> {
+    const model = request.model || this.model;
+    const messages: Array<{ role: string; content: string }> = [
+      ...(request.system ? [{ role: 'system', content: request.system }] : []),
+      ...request.messages.map((message: AiMessage) => ({ role: message.role, content: message.content })),
+    ];
+    const temperature = request.temperature ?? this.config.ai.temperature ?? 0.2;
+    const maxTokens = request.maxTokens ?? this.config.ai.maxTokens;
+
+    const body = this.apiStyle === 'ollama'
+      ? {
+        model,
+        messages,
+        stream,
+        ...(json ? { format: 'json' } : {}),
+        options: { temperature, num_predict: maxTokens },
+      }
+      : {
+        model,
+        messages,
+        temperature,
+        max_tokens: maxTokens,
+        stream,
+        ...(json ? { response_format: { type: 'json_object' } } : {}),
+      };
+
+    try {
+      return await postJson(`${this.baseURL}${this.apiStyle === 'ollama' ? '/api/chat' : '/chat/completions'}`, {
+        provider: PROVIDER,
+        body,
+        // Local models can be slow to load, so allow more time than hosted APIs
+        timeout: this.config.ai.timeout || 120000,
+        signal: request.signal,
+        describeError: (status, errorBody, text) => {
+          const detail = getApiErrorMessage(errorBody) || text || `HTTP ${status}`;
+          if (status === 404 && /model/i.test(String(detail))) {
+            return `Model "${model}" is not available on the local server (${detail}). Pull or load it first.`;
+          }
+          return `Local LLM server error (${status}): ${detail}`;
+        },
+      });
+    } catch (error) {
+      if (error instanceof AiProviderError && error.type === 'unreachable') {
+        throw new AiProviderError(
+          `${error.message}. Make sure the local LLM server is running and config.ai.apiEndpoint is correct.`,
+          'unreachable',
+          { provider: PROVIDER }
+        );
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Parses one line or event of a streamed reply, skipping ones that aren't JSON
+ */
+function safeParse<T>(text: string): T | null {
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    return null;
+  }
+}
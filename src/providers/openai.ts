@@ -0,0 +1,153 @@
+// src/providers/openai.ts
+import { OpenAI } from 'openai';
+import { AiProvider, AiCompletionRequest, AiCompletionResult, AiJsonResult } from '../types.js';
+import { TddAiConfig } from '../utils/config.js';
+import { AiProviderError, errorTypeFromStatus } from './errors.js';
+import { estimateTokens, parseJsonReply, parseRetryAfter } from './helpers.js';
+
+const PROVIDER = 'openai';
+
+/**
+ * AI provider backed by the OpenAI chat completions API
+ */
+export class OpenAiProvider implements AiProvider {
+  readonly name = PROVIDER;
+  private readonly client: OpenAI;
+
+  constructor(private readonly config: TddAiConfig) {
+    if (!config.ai.apiKey) {
+      throw new AiProviderError(
+        'No OpenAI API key provided. Set OPENAI_API_KEY environment variable.',
+        'auth',
+        { provider: PROVIDER }
+      );
+    }
+
+    this.client = new OpenAI({
+      apiKey: config.ai.apiKey,
+      baseURL: config.ai.apiEndpoint,
+      timeout: config.ai.timeout,
+      // Retries are handled by RetryingProvider
+      maxRetries: 0,
+    });
+  }
+
+  get model(): string {
+    return this.config.ai.model || 'gpt-4-turbo';
+  }
+
+  async complete(request: AiCompletionRequest): Promise<AiCompletionResult> {
+    return this.createCompletion(request, false);
+  }
+
+  async completeJson<T = unknown>(request: AiCompletionRequest): Promise<AiJsonResult<T>> {
+    const result = await this.createCompletion(request, true);
+    return { ...result, data: parseJsonReply<T>(result.text, PROVIDER) };
+  }
+
+  async stream(request: AiCompletionRequest, onText: (delta: string) => void): Promise<AiCompletionResult> {
+    try {
+      const stream = await this.client.chat.completions.create({
+        ...this.buildParams(request),
+        stream: true,
+        stream_options: { include_usage: true },
+      }, { signal: request.signal });
+
+      let text = '';
+      let model = request.model || this.model;
+      let stopReason: string | undefined;
+      let usage: AiCompletionResult['usage'];
+
+      for await (const chunk of stream) {
+        model = chunk.model || model;
+        // The final chunk carries the token usage and no choices
+        if (chunk.usage) {
+          usage = { inputTokens: chunk.usage.prompt_tokens, outputTokens: chunk.usage.completion_tokens };
+        }
+        const choice = chunk.choices[0];
+        const delta = choice?.delta?.content;
+        if (delta) {
+          text += delta;
+          onText(delta);
+        }
+        if (choice?.finish_reason) {
+          stopReason = choice.finish_reason;
+        }
+      }
+
+      return { text, model, stopReason, usage };
+    } catch (error) {
+      throw toProviderError(error, request.signal);
+    }
+  }
+
+  countTokens(text: string): number {
+    return estimateTokens(text);
+  }
+
+  private async createCompletion(request: AiCompletionRequest, json: boolean): Promise<AiCompletionResult> {
+    try {
+      const response = await this.client.chat.completions.create({
+        ...this.buildParams(request),
+        ...(json ? { response_format: { type: 'json_object' as const } } : {}),
+      }, { signal: request.signal });
+
+      const choice = response.choices?.[0];
+
+      return {
+        text: choice?.message.content || '',
+        model: response.model || request.model || this.model,
+        stopReason: choice?.finish_reason || undefined,
+        usage: response.usage ? {
+          inputTokens: response.usage.prompt_tokens,
+          outputTokens: response.usage.completion_tokens,
+        } : undefined,
+      };
+    } catch (error) {
+      throw toProviderError(error, request.signal);
+    }
+  }
+
+  private buildParams(request: AiCompletionRequest) {
+    return {
+      model: request.model || this.model,
+      messages: [
+        ...(request.system ? [{ role: 'system' as const, content: request.system }] : []),
+        ...request.messages,
+      ],
+      temperature: request.temperature ?? this.config.ai.temperature ?? 0.2,
+      max_tokens: request.maxTokens ?? this.config.ai.maxTokens,
+    };
+  }
+}
+
+/**
+ * Maps OpenAI SDK errors to AiProviderError
+ */
+function toProviderError(error: unknown, signal?: AbortSignal): AiProviderError {
+  if (error instanceof AiProviderError) {
+    return error;
+  }
+
+  if (error instanceof OpenAI.APIUserAbortError || signal?.aborted) {
+    return new AiProviderError('OpenAI request was aborted', 'aborted', { provider: PROVIDER });
+  }
+
+  if (error instanceof OpenAI.APIConnectionTimeoutError) {
+    return new AiProviderError('OpenAI request timed out', 'timeout', { provider: PROVIDER });
+  }
+
+  if (error instanceof OpenAI.APIConnectionError) {
+    return new AiProviderError(`Could not reach OpenAI API: ${error.message}`, 'unreachable', { provider: PROVIDER });
+  }
+
+  if (error instanceof OpenAI.APIError && error.status) {
+    return new AiProviderError(error.message, errorTypeFromStatus(error.status), {
+      provider: PROVIDER,
+      status: error.status,
+      retryAfterMs: parseRetryAfter(error.headers?.['retry-after']),
+    });
+  }
+
+  return new AiProviderError(error instanceof Error ? error.message : String(error), 'unknown', { provider: PROVIDER });
+}
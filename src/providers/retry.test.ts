@@ -0,0 +1,105 @@
+// src/providers/retry.test.ts
+import { describe, it, expect, vi } from 'vitest';
+import { RetryingProvider, RetryPolicy, getRetryDelay } from './retry.js';
+import { AiProviderError, AiProviderErrorType } from './errors.js';
+import { AiProvider, AiCompletionRequest, AiCompletionResult, RetryInfo } from '../types.js';
+
+const policy: RetryPolicy = { maxRetries: 3, initialDelayMs: 1, maxDelayMs: 5, timeoutMs: 1000 };
+const request: AiCompletionRequest = { messages: [{ role: 'user', content: 'make the tests pass' }] };
+
+function failure(type: AiProviderErrorType): AiProviderError {
+  return new AiProviderError(`request failed: ${type}`, type, { provider: 'fake' });
+}
+
+// Runs each attempt in turn; an attempt throws, or streams its deltas and returns the text
+function createInner(attempts: Array<AiProviderError | string[]>): AiProvider & { calls: number } {
+  const inner = {
+    name: 'fake',
+    model: 'fake-model',
+    calls: 0,
+    async complete(): Promise<AiCompletionResult> {
+      return inner.stream(request, () => {});
+    },
+    async completeJson(): Promise<never> {
+      throw new Error('not used');
+    },
+    async stream(request: AiCompletionRequest, onText: (delta: string) => void): Promise<AiCompletionResult> {
+      const attempt = attempts[inner.calls++];
+      if (attempt instanceof AiProviderError) {
+        throw attempt;
+      }
+      attempt.forEach(onText);
+      return { text: attempt.join(''), model: 'fake-model' };
+    },
+    countTokens: (text: string) => text.length,
+  };
+  return inner;
+}
+
+describe('getRetryDelay', () => {
+  it('doubles the backoff with each retry, up to maxDelayMs', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    const slowPolicy: RetryPolicy = { ...policy, initialDelayMs: 1000, maxDelayMs: 5000 };
+
+    expect([1, 2, 3, 4].map(retry => getRetryDelay(slowPolicy, retry))).toEqual([1000, 2000, 4000, 5000]);
+    vi.restoreAllMocks();
+  });
+
+  it('waits as long as Retry-After asks, but no longer than maxDelayMs', () => {
+    const slowPolicy: RetryPolicy = { ...policy, maxDelayMs: 30_000 };
+
+    expect(getRetryDelay(slowPolicy, 1, 2000)).toBe(2000);
+    expect(getRetryDelay(slowPolicy, 1, 3_600_000)).toBe(30_000);
+  });
+});
+
+describe('RetryingProvider', () => {
+  it('retries transient failures and reports each retry', async () => {
+    const inner = createInner([failure('rate_limit'), failure('server'), ['done']]);
+    const retries: RetryInfo[] = [];
+    const provider = new RetryingProvider(inner, policy, info => retries.push(info));
+
+    expect((await provider.complete(request)).text).toBe('done');
+    expect(retries.map(retry => [retry.retry, retry.errorType])).toEqual([[1, 'rate_limit'], [2, 'server']]);
+  });
+
+  it('gives up after maxRetries', async () => {
+    const inner = createInner(Array.from({ length: 5 }, () => failure('timeout')));
+    const provider = new RetryingProvider(inner, policy);
+
+    await expect(provider.complete(request)).rejects.toMatchObject({ type: 'timeout' });
+    expect(inner.calls).toBe(4);
+  });
+
+  it('does not retry auth errors', async () => {
+    const inner = createInner([failure('auth'), ['done']]);
+    const provider = new RetryingProvider(inner, policy);
+
+    await expect(provider.complete(request)).rejects.toMatchObject({ type: 'auth' });
+    expect(inner.calls).toBe(1);
+  });
+
+  it('retries a stream that fails before its first delta', async () => {
+    const inner = createInner([failure('unreachable'), ['do', 'ne']]);
+    const provider = new RetryingProvider(inner, policy);
+    const deltas: string[] = [];
+
+    expect((await provider.stream(request, delta => deltas.push(delta))).text).toBe('done');
+    expect(deltas).toEqual(['do', 'ne']);
+  });
+
+  it('does not retry a stream once a delta has been passed on', async () => {
+    const failingStream: AiProvider = {
+      ...createInner([]),
+      async stream(request, onText) {
+        onText('partial');
+        throw failure('server');
+      },
+    };
+    const provider = new RetryingProvider(failingStream, policy);
+    const deltas: string[] = [];
+
+    await expect(provider.stream(request, delta => deltas.push(delta))).rejects.toMatchObject({ type: 'server' });
+    expect(deltas).toEqual(['partial']);
+  });
+});
@@ -0,0 +1,190 @@
+// src/providers/retry.ts
+import { AiProvider, AiCompletionRequest, AiCompletionResult, AiJsonResult, RetryInfo } from '../types.js';
+import { TddAiConfig } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+import { AiProviderError, AiProviderErrorType } from './errors.js';
+
+export interface RetryPolicy {
+  maxRetries: number;
+  initialDelayMs: number;
+  maxDelayMs: number;
+  // Per-request timeout; a timed out request counts as a transient failure
+  timeoutMs: number;
+}
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  initialDelayMs: 1000,
+  maxDelayMs: 30000,
+  timeoutMs: 60000,
+};
+
+// Failures that are likely to succeed when the same request is sent again
+const TRANSIENT_ERRORS: AiProviderErrorType[] = ['rate_limit', 'server', 'timeout', 'unreachable'];
+
+/**
+ * Builds the retry policy from config.ai.retry, filling in defaults
+ */
+export function getRetryPolicy(config: TddAiConfig): RetryPolicy {
+  return {
+    ...DEFAULT_RETRY_POLICY,
+    timeoutMs: config.ai.timeout || DEFAULT_RETRY_POLICY.timeoutMs,
+    ...config.ai.retry,
+  };
+}
+
+/**
+ * Computes the delay before a retry: the server's Retry-After if given,
+ * otherwise exponential backoff with jitter. Either way it is capped at maxDelayMs,
+ * so a long Retry-After doesn't stall the loop.
+ * @param retry - Retry number, starting at 1
+ */
+export function getRetryDelay(policy: RetryPolicy, retry: number, retryAfterMs?: number): number {
+  if (retryAfterMs !== undefined) {
+    return Math.min(retryAfterMs, policy.maxDelayMs);
+  }
+
+  const backoff = Math.min(policy.maxDelayMs, policy.initialDelayMs * 2 ** (retry - 1));
+  // Spread retries out so parallel clients don't hit the API in lockstep
+  return Math.round(backoff / 2 + Math.random() * backoff / 2);
+}
+
+/**
+ * Provider wrapper that applies a per-request timeout and retries transient failures
+ */
+export class RetryingProvider implements AiProvider {
+  constructor(
+    private readonly inner: AiProvider,
+    private readonly policy: RetryPolicy,
+    private readonly onRetry?: (info: RetryInfo) => void
+  ) {}
+
+  get name(): string {
+    return this.inner.name;
+  }
+
+  get model(): string {
+    return this.inner.model;
+  }
+
+  complete(request: AiCompletionRequest): Promise<AiCompletionResult> {
+    return this.withRetries(request, (attemptRequest) => this.inner.complete(attemptRequest));
+  }
+
+  completeJson<T = unknown>(request: AiCompletionRequest): Promise<AiJsonResult<T>> {
+    return this.withRetries(request, (attemptRequest) => this.inner.completeJson<T>(attemptRequest));
+  }
+
+  stream(request: AiCompletionRequest, onText: (delta: string) => void): Promise<AiCompletionResult> {
+    let received = false;
+
+    // Once text has been passed on, a retry would repeat it, so only failures before the first delta are retried
+    return this.withRetries(
+      request,
+      (attemptRequest) => this.inner.stream(attemptRequest, (delta) => {
+        received = true;
+        onText(delta);
+      }),
+      () => !received
+    );
+  }
+
+  countTokens(text: string): number {
+    return this.inner.countTokens(text);
+  }
+
+  private async withRetries<R>(
+    request: AiCompletionRequest,
+    send: (request: AiCompletionRequest) => Promise<R>,
+    canRetry: () => boolean = () => true
+  ): Promise<R> {
+    for (let retry = 0; ; retry++) {
+      try {
+        return await this.sendWithTimeout(request, send);
+      } catch (error) {
+        if (
+          !(error instanceof AiProviderError) ||
+          !TRANSIENT_ERRORS.includes(error.type) ||
+          retry >= this.policy.maxRetries ||
+          !canRetry() ||
+          request.signal?.aborted
+        ) {
+          throw error;
+        }
+
+        const delayMs = getRetryDelay(this.policy, retry + 1, error.retryAfterMs);
+        const info: RetryInfo = {
+          retry: retry + 1,
+          maxRetries: this.policy.maxRetries,
+          delayMs,
+          reason: error.message,
+          errorType: error.type,
+        };
+
+        logger.warn(`${this.inner.name} request failed (${error.type}), retrying in ${delayMs}ms (${info.retry}/${info.maxRetries})`);
+        this.onRetry?.(info);
+
+        await sleep(delayMs, request.signal, this.inner.name);
+      }
+    }
+  }
+
+  private async sendWithTimeout<R>(
+    request: AiCompletionRequest,
+    send: (request: AiCompletionRequest) => Promise<R>
+  ): Promise<R> {
+    const controller = new AbortController();
+    let timedOut = false;
+    const timeoutId = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, this.policy.timeoutMs);
+
+    const onAbort = (): void => controller.abort();
+    if (request.signal?.aborted) {
+      controller.abort();
+    } else {
+      request.signal?.addEventListener('abort', onAbort);
+    }
+
+    try {
+      return await send({ ...request, signal: controller.signal });
+    } catch (error) {
+      if (timedOut) {
+        throw new AiProviderError(
+          `${this.inner.name} request timed out after ${this.policy.timeoutMs}ms`,
+          'timeout',
+          { provider: this.inner.name }
+        );
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+      request.signal?.removeEventListener('abort', onAbort);
+    }
+  }
+}
+
+/**
+ * Waits for the given time, ending early with an 'aborted' error if the signal fires
+ */
+function sleep(ms: number, signal: AbortSignal | undefined, provider: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const aborted = (): AiProviderError => new AiProviderError('Request was cancelled', 'aborted', { provider });
+
+    if (signal?.aborted) {
+      reject(aborted());
+      return;
+    }
+
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = (): void => {
+      clearTimeout(timeoutId);
+      reject(aborted());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
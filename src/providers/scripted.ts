@@ -0,0 +1,131 @@
+// src/providers/scripted.ts
+import fs from 'fs/promises';
+import path from 'path';
+import { AiProvider, AiCompletionRequest, AiCompletionResult, AiJsonResult } from '../types.js';
+import { TddAiConfig } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+import { AiProviderError } from './errors.js';
+import { estimateTokens } from './helpers.js';
+
+const PROVIDER = 'scripted';
+
+const DEFAULT_VALIDATION = {
+  issues: [],
+  overallAssessment: 'Scripted provider: no issues reported.',
+};
+
+/**
+ * Provider that returns a fixed sequence of implementations, for end-to-end tests of the loop.
+ * Each text completion returns the next scripted implementation; JSON completions return the
+ * next scripted agent action in agent mode, and the scripted validation result otherwise.
+ */
+export class ScriptedProvider implements AiProvider {
+  readonly name = PROVIDER;
+  readonly model: string;
+  private next = 0;
+  private nextAction = 0;
+
+  constructor(
+    private readonly implementations: string[],
+    private readonly validation: unknown = DEFAULT_VALIDATION,
+    private readonly onExhausted: 'repeat' | 'error' = 'repeat',
+    model = 'scripted',
+    private readonly agentActions: unknown[] = []
+  ) {
+    this.model = model;
+  }
+
+  async complete(request: AiCompletionRequest): Promise<AiCompletionResult> {
+    const index = this.take(this.implementations, this.next++, 'implementations');
+    logger.debug(`Scripted provider returning implementation ${index + 1}/${this.implementations.length}`);
+
+    const text = this.implementations[index];
+    return {
+      text,
+      model: request.model || this.model,
+      usage: {
+        inputTokens: this.countTokens([request.system || '', ...request.messages.map(m => m.content)].join('\n')),
+        outputTokens: this.countTokens(text),
+      },
+    };
+  }
+
+  async completeJson<T = unknown>(request: AiCompletionRequest): Promise<AiJsonResult<T>> {
+    let reply = this.validation;
+    if (request.purpose === 'agent') {
+      const index = this.take(this.agentActions, this.nextAction++, 'agent actions');
+      logger.debug(`Scripted provider returning agent action ${index + 1}/${this.agentActions.length}`);
+      reply = this.agentActions[index];
+    }
+
+    const text = JSON.stringify(reply);
+    return {
+      text,
+      model: request.model || this.model,
+      data: JSON.parse(text) as T,
+    };
+  }
+
+  async stream(request: AiCompletionRequest, onText: (delta: string) => void): Promise<AiCompletionResult> {
+    const result = await this.complete(request);
+    onText(result.text);
+    return result;
+  }
+
+  countTokens(text: string): number {
+    return estimateTokens(text);
+  }
+
+  /**
+   * Picks the scripted response to return, repeating the last one once they run out
+   * unless onExhausted is 'error'
+   * @param responses - Scripted responses
+   * @param next - Number of responses returned so far
+   * @param label - Name of the responses, for errors
+   * @returns Index of the response
+   */
+  private take(responses: unknown[], next: number, label: string): number {
+    if (responses.length === 0) {
+      throw new AiProviderError(`Scripted provider has no ${label} configured`, 'invalid_request', { provider: PROVIDER });
+    }
+
+    if (next >= responses.length && this.onExhausted === 'error') {
+      throw new AiProviderError(
+        `Scripted provider ran out of ${label} after ${responses.length} responses`,
+        'invalid_request',
+        { provider: PROVIDER }
+      );
+    }
+
+    return Math.min(next, responses.length - 1);
+  }
+}
+
+/**
+ * Creates a scripted provider from config.ai.script, reading any implementation files
+ * @param config - Application configuration
+ * @param baseDir - Directory that relative file paths are resolved against
+ */
+export async function createScriptedProvider(config: TddAiConfig, baseDir: string = process.cwd()): Promise<ScriptedProvider> {
+  const script = config.ai.script || {};
+  const implementations = [...(script.implementations || [])];
+
+  for (const file of script.files || []) {
+    const filePath = path.resolve(baseDir, file);
+    try {
+      implementations.push(await fs.readFile(filePath, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Failed to read scripted implementation ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  logger.debug(`Scripted provider loaded ${implementations.length} implementations`);
+
+  return new ScriptedProvider(
+    implementations,
+    script.validation || DEFAULT_VALIDATION,
+    script.onExhausted,
+    config.ai.model,
+    script.agentActions
+  );
+}
@@ -0,0 +1,60 @@
+// src/providers/usage-tracking.ts
+import { AiProvider, AiCompletionRequest, AiCompletionResult, AiJsonResult } from '../types.js';
+import { UsageTracker } from '../utils/usage.js';
+
+/**
+ * Provider wrapper that records the token usage of every call in a UsageTracker.
+ * When a provider doesn't report usage, it is estimated with the provider's token counter.
+ */
+export class UsageTrackingProvider implements AiProvider {
+  constructor(
+    private readonly inner: AiProvider,
+    private readonly tracker: UsageTracker
+  ) {}
+
+  get name(): string {
+    return this.inner.name;
+  }
+
+  get model(): string {
+    return this.inner.model;
+  }
+
+  async complete(request: AiCompletionRequest): Promise<AiCompletionResult> {
+    const result = await this.inner.complete(request);
+    this.track(request, result, 'generation');
+    return result;
+  }
+
+  async completeJson<T = unknown>(request: AiCompletionRequest): Promise<AiJsonResult<T>> {
+    const result = await this.inner.completeJson<T>(request);
+    this.track(request, result, 'validation');
+    return result;
+  }
+
+  async stream(request: AiCompletionRequest, onText: (delta: string) => void): Promise<AiCompletionResult> {
+    const result = await this.inner.stream(request, onText);
+    this.track(request, result, 'generation');
+    return result;
+  }
+
+  countTokens(text: string): number {
+    return this.inner.countTokens(text);
+  }
+
+  private track(request: AiCompletionRequest, result: AiCompletionResult, defaultPurpose: string): void {
+    const purpose = request.purpose || defaultPurpose;
+    const model = result.model || request.model || this.inner.model;
+
+    if (result.usage) {
+      this.tracker.record(model, result.usage, purpose);
+      return;
+    }
+
+    const promptText = [request.system || '', ...request.messages.map(message => message.content)].join('\n');
+    this.tracker.record(model, {
+      inputTokens: this.inner.countTokens(promptText),
+      outputTokens: this.inner.countTokens(result.text),
+    }, purpose, true);
+  }
+}
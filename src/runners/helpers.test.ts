@@ -0,0 +1,67 @@
+// src/runners/helpers.test.ts
+import { describe, it, expect } from 'vitest';
+import path from 'path';
+import { buildTestCommand, toTestNamePattern, RunnerInvocation } from './helpers.js';
+
+const INVOCATION: RunnerInvocation = {
+  command: 'npx',
+  args: ['vitest', 'run'],
+  reporterArgs: ['--reporter', 'json'],
+  watchArgs: ['--watch'],
+  fileArgs: files => files,
+  testNameArgs: names => ['--testNamePattern', toTestNamePattern(names)],
+  testTimeoutArgs: timeout => ['--testTimeout', String(timeout)],
+  label: 'Vitest',
+};
+
+const projectPath = path.resolve('/project');
+
+describe('buildTestCommand', () => {
+  it('adds reporter, timeout, name and file arguments after the defaults', () => {
+    const command = buildTestCommand(
+      { projectPath, files: [path.join(projectPath, 'src/sum.test.ts')], testNames: ['sum adds'] },
+      { testTimeout: 500 },
+      INVOCATION
+    );
+
+    expect(command.command).toBe('npx');
+    expect(command.args).toEqual([
+      'vitest', 'run',
+      '--reporter', 'json',
+      '--testTimeout', '500',
+      '--testNamePattern', 'sum adds',
+      'src/sum.test.ts',
+    ]);
+    expect(command.cwd).toBe(projectPath);
+  });
+
+  it('does not add the reporter when the configured args already select one', () => {
+    const separate = buildTestCommand({ projectPath }, { args: ['vitest', 'run', '--reporter', 'json'] }, INVOCATION);
+    const joined = buildTestCommand({ projectPath }, { args: ['vitest', 'run', '--reporter=json'] }, INVOCATION);
+
+    expect(separate.args).toEqual(['vitest', 'run', '--reporter', 'json']);
+    expect(joined.args).toEqual(['vitest', 'run', '--reporter=json']);
+  });
+
+  it('leaves the reporter out when jsonReporter is off', () => {
+    const command = buildTestCommand({ projectPath }, { jsonReporter: false }, INVOCATION);
+
+    expect(command.args).toEqual(['vitest', 'run']);
+  });
+
+  it('passes the memory limit through NODE_OPTIONS', () => {
+    const command = buildTestCommand({ projectPath }, { memoryLimitMb: 512, env: { NODE_OPTIONS: '--enable-source-maps' } }, INVOCATION);
+
+    expect(command.env?.NODE_OPTIONS).toBe('--enable-source-maps --max-old-space-size=512');
+  });
+});
+
+describe('toTestNamePattern', () => {
+  it('escapes each name and matches any of them', () => {
+    const pattern = new RegExp(toTestNamePattern(['sum (a + b)', 'divide']));
+
+    expect(pattern.test('sum (a + b)')).toBe(true);
+    expect(pattern.test('divide')).toBe(true);
+    expect(pattern.test('sum a  b')).toBe(false);
+  });
+});
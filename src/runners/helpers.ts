@@ -0,0 +1,287 @@
+// src/runners/helpers.ts
+import { execa } from 'execa';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { FileCoverage, PackageJsonInfo, TestRunOptions, TestRunOutput, TestRunnerSettings } from '../types.js';
+import { logger } from '../utils/logger.js';
+import { parseIstanbulCoverage } from '../utils/parse-coverage.js';
+
+export interface TestCommand {
+  command: string;
+  args: string[];
+  cwd: string;
+  // Extra environment variables
+  env?: Record<string, string>;
+  // Milliseconds before the process tree is killed; ignored in watch mode
+  timeout?: number;
+  // Runner name for log messages
+  label: string;
+  // Return as soon as the process starts, with the handle in the output
+  watch?: boolean;
+}
+
+// How an adapter runs its tests when config.testRunner doesn't override the command
+export interface RunnerInvocation {
+  command: string;
+  args: string[];
+  // Selects the machine-readable report the adapter parses; left out when jsonReporter is false
+  // or the configured args already select a reporter with the same flag
+  reporterArgs: string[];
+  watchArgs: string[];
+  // Arguments naming the test files, given relative to the working directory
+  fileArgs: (files: string[]) => string[];
+  // Arguments selecting tests by their full names; left out by runners that can't filter reliably
+  testNameArgs?: (testNames: string[]) => string[];
+  // Arguments setting the per-test timeout in milliseconds
+  testTimeoutArgs: (timeout: number) => string[];
+  label: string;
+}
+
+// Test processes that are still running, killed with their children if we exit first
+const runningProcesses = new Set<number>();
+
+process.once('exit', () => {
+  runningProcesses.forEach(pid => killProcessTree(pid));
+});
+
+/**
+ * Builds the command for a test run from the adapter's defaults and config.testRunner.
+ * The configured command and args replace the adapter's; reporter, watch and file arguments follow them,
+ * except for reporter arguments the configured args already give.
+ * @param options - Test run options
+ * @param settings - Test runner settings from config
+ * @param invocation - The adapter's default invocation
+ * @param extraArgs - Arguments for this run only, placed before the test files
+ */
+export function buildTestCommand(
+  options: TestRunOptions,
+  settings: TestRunnerSettings,
+  invocation: RunnerInvocation,
+  extraArgs: string[] = []
+): TestCommand {
+  const { projectPath, watch = false, files = [], testNames = [] } = options;
+  const cwd = settings.cwd ? path.resolve(projectPath, settings.cwd) : projectPath;
+
+  // The heap limit goes through NODE_OPTIONS so it reaches every Node process the runner starts
+  const env = settings.memoryLimitMb
+    ? {
+        ...settings.env,
+        NODE_OPTIONS: [settings.env?.NODE_OPTIONS ?? process.env.NODE_OPTIONS, `--max-old-space-size=${settings.memoryLimitMb}`]
+          .filter(Boolean)
+          .join(' ')
+      }
+    : settings.env;
+
+  const args = settings.args ?? invocation.args;
+  let addReporter = settings.jsonReporter !== false;
+  if (addReporter && selectsReporter(args, invocation.reporterArgs)) {
+    logger.debug(`Test runner args already select a reporter, not adding ${invocation.reporterArgs.join(' ')}`);
+    addReporter = false;
+  }
+
+  return {
+    command: settings.command || invocation.command,
+    args: [
+      ...args,
+      ...(addReporter ? invocation.reporterArgs : []),
+      ...(watch ? invocation.watchArgs : []),
+      ...(settings.testTimeout ? invocation.testTimeoutArgs(settings.testTimeout) : []),
+      ...extraArgs,
+      ...(testNames.length > 0 && invocation.testNameArgs ? invocation.testNameArgs(testNames) : []),
+      ...(files.length > 0 ? invocation.fileArgs(toRelativePaths(cwd, files.map(file => path.resolve(projectPath, file)))) : [])
+    ],
+    cwd,
+    env,
+    timeout: settings.timeout,
+    label: invocation.label,
+    watch,
+  };
+}
+
+/**
+ * Whether args already contain the flag of the reporter arguments, as `--flag value` or `--flag=value`
+ */
+function selectsReporter(args: string[], reporterArgs: string[]): boolean {
+  const flag = reporterArgs[0]?.split('=')[0];
+  return !!flag && args.some(arg => arg === flag || arg.startsWith(`${flag}=`));
+}
+
+/**
+ * Builds a regular expression matching any of the given test names
+ */
+export function toTestNamePattern(testNames: string[]): string {
+  return testNames
+    .map(name => name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('|');
+}
+
+/**
+ * Spawns a test runner and collects its output. Test failures don't reject.
+ * The runner gets its own process group, so a timeout kills everything it started,
+ * including a test stuck in an infinite loop in a worker.
+ * @param testCommand - Command to run
+ * @returns The runner's output and exit code
+ */
+export async function runTestCommand(testCommand: TestCommand): Promise<TestRunOutput> {
+  const { command, args, cwd, env = {}, timeout, label, watch = false } = testCommand;
+
+  logger.info(`Starting ${label} process...`);
+  logger.debug(`Running: ${command} ${args.join(' ')} (in ${cwd})`);
+
+  const testProcess = execa(command, args, {
+    cwd,
+    reject: false, // Don't throw on test failure
+    // Lead a new process group so the whole tree can be killed (POSIX only)
+    detached: process.platform !== 'win32',
+    env: {
+      ...process.env,
+      FORCE_COLOR: 'true',  // Ensure colors are enabled
+      ...env
+    }
+  });
+
+  const output: TestRunOutput = { stdout: '', stderr: '', exitCode: null };
+
+  // Capture standard output
+  testProcess.stdout?.on('data', (data) => {
+    const chunk = data.toString();
+    output.stdout += chunk;
+    logger.debug(`${label} stdout: ${chunk.substring(0, 200)}${chunk.length > 200 ? '...' : ''}`);
+  });
+
+  // Capture error output
+  testProcess.stderr?.on('data', (data) => {
+    const chunk = data.toString();
+    output.stderr += chunk;
+    logger.warn(`${label} stderr: ${chunk}`);
+  });
+
+  const pid = testProcess.pid;
+  if (pid !== undefined) {
+    runningProcesses.add(pid);
+    testProcess.finally(() => runningProcesses.delete(pid)).catch(() => {});
+  }
+
+  if (watch) {
+    return { ...output, process: testProcess };
+  }
+
+  let timedOut = false;
+  const timer = timeout && pid !== undefined
+    ? setTimeout(() => {
+        timedOut = true;
+        logger.warn(`${label} did not finish within ${timeout}ms, killing it`);
+        killProcessTree(pid);
+      }, timeout)
+    : undefined;
+
+  logger.debug(`Waiting for ${label} process to complete...`);
+  const result = await testProcess;
+  clearTimeout(timer);
+
+  if (timedOut) {
+    return { ...output, exitCode: null, timedOut };
+  }
+
+  logger.info(`${label} process completed with exit code: ${result.exitCode}`);
+  return { ...output, exitCode: result.exitCode ?? null };
+}
+
+/**
+ * Runs tests with coverage written as an Istanbul JSON report to a temporary directory, and reads
+ * the coverage of the given source files from it
+ * @param sourceFiles - Absolute paths of the files to report on
+ * @param buildCommand - Builds the test command writing coverage-final.json to the given directory
+ * @throws Error if the run times out or writes no report
+ */
+export async function runIstanbulCoverage(
+  sourceFiles: string[],
+  buildCommand: (reportDir: string) => TestCommand
+): Promise<FileCoverage[]> {
+  const reportDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tdd-ai-coverage-'));
+
+  try {
+    const output = await runTestCommand(buildCommand(reportDir));
+    if (output.timedOut) {
+      throw new Error('Coverage run did not finish in time');
+    }
+
+    const reportPath = path.join(reportDir, 'coverage-final.json');
+    if (!await fileExists(reportPath)) {
+      const lastError = output.stderr.trim().split('\n').slice(-3).join(' ');
+      throw new Error(`No coverage report was written${lastError ? `: ${lastError}` : ''}`);
+    }
+
+    return parseIstanbulCoverage(JSON.parse(await fs.readFile(reportPath, 'utf-8')), sourceFiles);
+  } finally {
+    await fs.rm(reportDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Kills a test process and every process it started
+ * @param pid - Process id of the runner, which leads its process group
+ */
+export function killProcessTree(pid: number): void {
+  try {
+    if (process.platform === 'win32') {
+      execa('taskkill', ['/pid', String(pid), '/T', '/F'], { reject: false });
+    } else {
+      process.kill(-pid, 'SIGKILL');
+    }
+  } catch {
+    // Already exited
+  }
+  runningProcesses.delete(pid);
+}
+
+/**
+ * Converts test file paths to paths relative to the runner's working directory, as runners expect
+ */
+export function toRelativePaths(cwd: string, files: string[]): string[] {
+  return files.map(file => path.isAbsolute(file) ? path.relative(cwd, file) : file);
+}
+
+/**
+ * Reads the project's package.json
+ * @returns The parsed package.json, or null if it is missing or invalid
+ */
+export async function readPackageJson(projectPath: string): Promise<PackageJsonInfo | null> {
+  try {
+    return JSON.parse(await fs.readFile(path.join(projectPath, 'package.json'), 'utf-8')) as PackageJsonInfo;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether package.json lists a dependency in dependencies or devDependencies
+ */
+export function hasDependency(packageJson: PackageJsonInfo | null, name: string): boolean {
+  return !!(packageJson?.dependencies?.[name] || packageJson?.devDependencies?.[name]);
+}
+
+/**
+ * Whether any of the given files exists in the project
+ */
+export async function hasAnyFile(projectPath: string, files: string[]): Promise<boolean> {
+  for (const file of files) {
+    if (await fileExists(path.join(projectPath, file))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Helper to check if a file exists
+ */
+export async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
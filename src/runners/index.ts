@@ -0,0 +1,77 @@
+// src/runners/index.ts
+import { TestRunnerAdapter } from '../types.js';
+import { TddAiConfig } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+import { readPackageJson } from './helpers.js';
+import { VitestAdapter } from './vitest.js';
+import { JestAdapter } from './jest.js';
+import { NodeTestAdapter } from './node-test.js';
+
+// Used when config.testRunner.adapter is 'auto' and nothing is detected
+const DEFAULT_ADAPTER = 'vitest';
+
+// Registered adapters, keyed by the name used in config.testRunner.adapter, in detection order
+const registry = new Map<string, TestRunnerAdapter>();
+
+/**
+ * Registers a test runner adapter so it can be detected or selected with config.testRunner.adapter
+ * @param adapter - Adapter instance
+ */
+export function registerTestRunner(adapter: TestRunnerAdapter): void {
+  if (registry.has(adapter.name)) {
+    logger.warn(`Test runner "${adapter.name}" is already registered, replacing it`);
+  }
+  registry.set(adapter.name, adapter);
+  logger.debug(`Registered test runner: ${adapter.name}`);
+}
+
+/**
+ * Names of all registered test runners
+ */
+export function getRegisteredTestRunners(): string[] {
+  return Array.from(registry.keys());
+}
+
+/**
+ * Picks the test runner for a project: the one named in config.testRunner.adapter, or
+ * when that is 'auto' (the default), the one the package.json test script mentions,
+ * then the first adapter whose detection matches, then Vitest.
+ * @param projectPath - Project root
+ * @param config - Application configuration
+ * @throws Error if the configured adapter is not registered
+ */
+export async function resolveTestRunner(projectPath: string, config?: TddAiConfig): Promise<TestRunnerAdapter> {
+  const configured = config?.testRunner.adapter;
+
+  if (configured && configured !== 'auto') {
+    const adapter = registry.get(configured);
+    if (!adapter) {
+      throw new Error(`Unknown test runner "${configured}". Available runners: ${getRegisteredTestRunners().join(', ')}`);
+    }
+    return adapter;
+  }
+
+  const packageJson = await readPackageJson(projectPath);
+
+  const testScript = packageJson?.scripts?.test || '';
+  for (const adapter of registry.values()) {
+    if (new RegExp(`(^|[\\s/])${adapter.name}(\\s|$)`).test(testScript)) {
+      logger.debug(`Detected ${adapter.name} from the package.json test script`);
+      return adapter;
+    }
+  }
+
+  for (const adapter of registry.values()) {
+    if (await adapter.detect(projectPath, packageJson)) {
+      logger.debug(`Detected ${adapter.name} from the project setup`);
+      return adapter;
+    }
+  }
+
+  logger.debug(`No test runner detected in ${projectPath}, using ${DEFAULT_ADAPTER}`);
+  return registry.get(DEFAULT_ADAPTER)!;
+}
+
+registerTestRunner(new VitestAdapter());
+registerTestRunner(new JestAdapter());
+registerTestRunner(new NodeTestAdapter());
@@ -0,0 +1,57 @@
+// src/runners/jest.ts
+import { TestRunnerAdapter, TestRunOptions, TestRunOutput, TestRunnerSettings, TestResults, PackageJsonInfo, FileCoverage } from '../types.js';
+import { parseJestOutput } from '../utils/parse-output.js';
+import { RunnerInvocation, runTestCommand, buildTestCommand, runIstanbulCoverage, toRelativePaths, toTestNamePattern, hasDependency, hasAnyFile } from './helpers.js';
+
+const CONFIG_FILES = [
+  'jest.config.js',
+  'jest.config.ts',
+  'jest.config.mjs',
+  'jest.config.cjs',
+  'jest.config.json'
+];
+
+const INVOCATION: RunnerInvocation = {
+  command: 'npx',
+  args: ['jest'],
+  reporterArgs: ['--json', '--testLocationInResults'],
+  watchArgs: ['--watchAll'],
+  // Match test files by path rather than treating them as regular expressions
+  fileArgs: files => ['--runTestsByPath', ...files],
+  testNameArgs: names => ['--testNamePattern', toTestNamePattern(names)],
+  testTimeoutArgs: timeout => ['--testTimeout', String(timeout)],
+  label: 'Jest',
+};
+
+/**
+ * Runs tests with Jest and its JSON report (--json)
+ */
+export class JestAdapter implements TestRunnerAdapter {
+  readonly name = 'jest';
+  readonly filtersTestNames = true;
+
+  async detect(projectPath: string, packageJson: PackageJsonInfo | null): Promise<boolean> {
+    return hasDependency(packageJson, 'jest') || !!packageJson?.jest || await hasAnyFile(projectPath, CONFIG_FILES);
+  }
+
+  async run(options: TestRunOptions, settings: TestRunnerSettings): Promise<TestRunOutput> {
+    return runTestCommand(buildTestCommand(options, settings, INVOCATION));
+  }
+
+  async coverage(options: TestRunOptions, settings: TestRunnerSettings, sourceFiles: string[]): Promise<FileCoverage[]> {
+    return runIstanbulCoverage(sourceFiles, reportDir => {
+      const command = buildTestCommand(options, settings, INVOCATION, [
+        '--coverage',
+        '--coverageProvider=v8',
+        '--coverageReporters=json',
+        `--coverageDirectory=${reportDir}`,
+      ]);
+      command.args.push(...toRelativePaths(command.cwd, sourceFiles).map(file => `--collectCoverageFrom=${file}`));
+      return command;
+    });
+  }
+
+  parse(output: TestRunOutput): TestResults {
+    return parseJestOutput(output.stdout);
+  }
+}
@@ -0,0 +1,56 @@
+// src/runners/node-test.test.ts
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { NodeTestAdapter } from './node-test.js';
+
+describe('NodeTestAdapter', () => {
+  let projectPath: string;
+
+  beforeAll(async () => {
+    projectPath = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'tdd-ai-node-test-')));
+    await fs.writeFile(path.join(projectPath, 'math.test.mjs'), [
+      "import test from 'node:test';",
+      "import assert from 'node:assert';",
+      "test('adds', () => assert.equal(1 + 1, 2));",
+      "test('divides', () => assert.equal(1 / 1, 2));",
+    ].join('\n'));
+    await fs.writeFile(path.join(projectPath, 'suite.test.mjs'), [
+      "import { describe, it } from 'node:test';",
+      "describe('math', () => {",
+      "  it('adds', () => {});",
+      "  it('subtracts', () => {});",
+      "});",
+    ].join('\n'));
+    await fs.writeFile(path.join(projectPath, 'greet.test.mjs'), [
+      "import test from 'node:test';",
+      "test('greets', () => {});",
+    ].join('\n'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(projectPath, { recursive: true, force: true });
+  });
+
+  it('attributes passing tests to their files', async () => {
+    const adapter = new NodeTestAdapter();
+    const output = await adapter.run({ projectPath, files: ['greet.test.mjs', 'math.test.mjs'] }, { timeout: 30_000 });
+    const results = adapter.parse(output);
+
+    const byFile = Object.fromEntries(results.files.map(file => [path.basename(file.file), file.tests.map(test => [test.name, test.success])]));
+    expect(byFile).toEqual({
+      'greet.test.mjs': [['greets', true]],
+      'math.test.mjs': [['adds', true], ['divides', false]],
+    });
+  });
+
+  it('runs only the named tests', async () => {
+    const adapter = new NodeTestAdapter();
+    const output = await adapter.run({ projectPath, files: ['suite.test.mjs'], testNames: ['math > subtracts'] }, { timeout: 30_000 });
+    const results = adapter.parse(output);
+
+    const ran = results.files.flatMap(file => file.tests.map(test => test.name));
+    expect(ran).toEqual(['math > subtracts']);
+  });
+});
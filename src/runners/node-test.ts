@@ -0,0 +1,85 @@
+// src/runners/node-test.ts
+import { TestRunnerAdapter, TestRunOptions, TestRunOutput, TestRunnerSettings, TestResults, PackageJsonInfo, FileCoverage } from '../types.js';
+import { parseTapOutput, FILE_COMMENT_PREFIX } from '../utils/parse-tap.js';
+import { parseNodeTestCoverage } from '../utils/parse-coverage.js';
+import { RunnerInvocation, runTestCommand, buildTestCommand, toTestNamePattern } from './helpers.js';
+import { logger } from '../utils/logger.js';
+
+// Node's TAP reporter, plus a comment naming each test's file; TAP only gives the location of failed tests.
+// Passed as a data URL so it loads the same whether we run from dist or from source.
+const TAP_WITH_FILES_REPORTER = `
+import { tap } from 'node:test/reporters';
+
+async function* tagFiles(source) {
+  for await (const event of source) {
+    if ((event.type === 'test:pass' || event.type === 'test:fail') && event.data.file) {
+      yield { type: 'test:diagnostic', data: { nesting: event.data.nesting, message: ${JSON.stringify(FILE_COMMENT_PREFIX)} + event.data.file } };
+    }
+    yield event;
+  }
+}
+
+export default async function* (source) {
+  yield* tap(tagFiles(source));
+}
+`;
+
+// --test-timeout arrived in Node 21.2 and was backported to 20.11
+const SUPPORTS_TEST_TIMEOUT = (() => {
+  const [major, minor] = process.versions.node.split('.').map(Number);
+  return major > 21 || (major === 21 && minor >= 2) || (major === 20 && minor >= 11);
+})();
+
+const INVOCATION: RunnerInvocation = {
+  command: 'node',
+  args: ['--test'],
+  reporterArgs: [`--test-reporter=data:text/javascript,${encodeURIComponent(TAP_WITH_FILES_REPORTER)}`],
+  watchArgs: ['--watch'],
+  fileArgs: files => files,
+  // --test-name-pattern matches each test's own name, not the "suite > test" names we report,
+  // so the pattern anchors the last part of each name. Suites run when any of their tests match.
+  testNameArgs: names => [`--test-name-pattern=^(?:${toTestNamePattern(names.map(name => name.split(' > ').pop() as string))})$`],
+  testTimeoutArgs: timeout => {
+    if (!SUPPORTS_TEST_TIMEOUT) {
+      logger.debug(`Node ${process.versions.node} has no --test-timeout, relying on the run timeout`);
+      return [];
+    }
+    return [`--test-timeout=${timeout}`];
+  },
+  label: 'node:test',
+};
+
+/**
+ * Runs tests with Node's built-in test runner (`node --test`) and a TAP reporter that names each test's file
+ */
+export class NodeTestAdapter implements TestRunnerAdapter {
+  readonly name = 'node-test';
+  readonly filtersTestNames = true;
+
+  async detect(projectPath: string, packageJson: PackageJsonInfo | null): Promise<boolean> {
+    return /\bnode\b[^&|;]*\s--test\b/.test(packageJson?.scripts?.test || '');
+  }
+
+  async run(options: TestRunOptions, settings: TestRunnerSettings): Promise<TestRunOutput> {
+    return runTestCommand(buildTestCommand(options, settings, INVOCATION));
+  }
+
+  async coverage(options: TestRunOptions, settings: TestRunnerSettings, sourceFiles: string[]): Promise<FileCoverage[]> {
+    // The coverage table is written to the TAP output, so the TAP reporter is needed even if jsonReporter is off
+    const command = buildTestCommand(options, { ...settings, jsonReporter: true }, INVOCATION, ['--experimental-test-coverage']);
+    const output = await runTestCommand(command);
+    if (output.timedOut) {
+      throw new Error('Coverage run did not finish in time');
+    }
+
+    const coverage = parseNodeTestCoverage(output.stdout, command.cwd, sourceFiles);
+    if (!coverage) {
+      throw new Error('node:test wrote no coverage report (coverage needs Node 20 or later)');
+    }
+    return coverage;
+  }
+
+  parse(output: TestRunOutput): TestResults {
+    return parseTapOutput(output.stdout);
+  }
+}
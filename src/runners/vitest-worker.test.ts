@@ -0,0 +1,56 @@
+// src/runners/vitest-worker.test.ts
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { runWithVitestWorker, closeVitestWorkers } from './vitest-worker.js';
+
+describe('runWithVitestWorker', () => {
+  let root: string;
+  let projectPath: string;
+  let unsupportedPath: string;
+
+  beforeAll(async () => {
+    root = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'tdd-ai-vitest-worker-')));
+
+    // Uses this repo's Vitest
+    projectPath = path.join(root, 'project');
+    await fs.mkdir(projectPath);
+    await fs.symlink(path.resolve('node_modules'), path.join(projectPath, 'node_modules'), 'dir');
+    await fs.writeFile(path.join(projectPath, 'math.ts'), 'export const add = (a: number, b: number) => a - b;\n');
+    await fs.writeFile(path.join(projectPath, 'math.test.ts'), [
+      "import { it, expect } from 'vitest';",
+      "import { add } from './math';",
+      "it('adds', () => expect(add(1, 2)).toBe(3));",
+    ].join('\n'));
+
+    unsupportedPath = path.join(root, 'unsupported');
+    await fs.mkdir(path.join(unsupportedPath, 'node_modules', 'vitest'), { recursive: true });
+    await fs.writeFile(path.join(unsupportedPath, 'node_modules', 'vitest', 'package.json'), JSON.stringify({
+      name: 'vitest',
+      version: '3.0.0',
+      exports: { './node': './dist/node.js' },
+    }));
+  });
+
+  afterAll(async () => {
+    await closeVitestWorkers();
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('picks up an implementation edited between runs', async () => {
+    const run = { root: projectPath, files: [path.join(projectPath, 'math.test.ts')], timeout: 60_000 };
+
+    const first = await runWithVitestWorker(run);
+    expect(first.results?.summary).toMatchObject({ passed: 0, failed: 1 });
+
+    await fs.writeFile(path.join(projectPath, 'math.ts'), 'export const add = (a: number, b: number) => a + b;\n');
+    const second = await runWithVitestWorker(run);
+    expect(second.results?.summary).toMatchObject({ passed: 1, failed: 0 });
+    expect(second.exitCode).toBe(0);
+  }, 120_000);
+
+  it('refuses a Vitest version it was not written against', async () => {
+    await expect(runWithVitestWorker({ root: unsupportedPath, files: [] })).rejects.toThrow(/Vitest 3\.0\.0 is not a version the worker supports/);
+  });
+});
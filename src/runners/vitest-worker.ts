@@ -0,0 +1,283 @@
+// src/runners/vitest-worker.ts
+import fs from 'fs/promises';
+import path from 'path';
+import { createRequire } from 'module';
+import { pathToFileURL } from 'url';
+import type { Vitest } from 'vitest/node';
+import { TestRunOutput, TestResults, TestFileResult, TestCaseResult } from '../types.js';
+import { logger } from '../utils/logger.js';
+import { fileExists, toRelativePaths } from './helpers.js';
+
+// The parts of a Vitest task (file, suite or test) we read; kept loose so any Vitest version fits
+interface VitestTask {
+  type: string;
+  name: string;
+  mode?: string;
+  filepath?: string;
+  tasks?: VitestTask[];
+  location?: { line: number; column: number };
+  result?: {
+    state?: string;
+    duration?: number;
+    errors?: Array<{ name?: string; message?: string; stack?: string; expected?: unknown; actual?: unknown }>;
+  };
+}
+
+export interface VitestWorkerRun {
+  root: string;
+  files: string[];
+  // Regular expression source for test names, or undefined to run every test
+  testNamePattern?: string;
+  timeout?: number;
+  testTimeout?: number;
+}
+
+// The worker drives Vitest internals (configOverride, runFiles, the state's task tree) that change
+// between releases, so it is only used with the versions it was written against; others run through the CLI
+const SUPPORTED_VITEST_VERSIONS = /^0\.34\./;
+
+// One Vitest instance per project root, created on first use and kept until closed
+const workers = new Map<string, Promise<Vitest>>();
+
+/**
+ * Runs tests in a long-lived Vitest instance through its Node API, so each run skips process
+ * startup and config loading. Results come straight from Vitest's task tree.
+ * @param run - Project root, test files and filters
+ * @returns Output with the results already parsed
+ * @throws Error if the project's Vitest can't be loaded or its API doesn't match
+ */
+export async function runWithVitestWorker(run: VitestWorkerRun): Promise<TestRunOutput> {
+  const { root, files, testNamePattern, timeout, testTimeout } = run;
+  const vitest = await getWorker(root);
+  const startedAt = Date.now();
+
+  // Modules aren't watched, so drop everything Vite has transformed; edits since the last run are picked up
+  for (const project of vitest.projects ?? [vitest]) {
+    project.server.moduleGraph.invalidateAll();
+  }
+  vitest.configOverride.testNamePattern = testNamePattern ? new RegExp(testNamePattern) : undefined;
+  // Overrides are merged over the project's config, so an unset timeout must not be present at all
+  if (testTimeout) {
+    vitest.configOverride.testTimeout = testTimeout;
+  } else {
+    delete vitest.configOverride.testTimeout;
+  }
+
+  const specs = await vitest.globTestFiles(toRelativePaths(root, files));
+  const filepaths: string[] = Array.from(new Set(specs.map((spec: [unknown, string]) => spec[1])));
+  logger.debug(`Vitest worker running ${filepaths.length} test files in ${root}`);
+
+  // Vitest flags failures on the process exit code, which isn't its to set here
+  const exitCode = process.exitCode;
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    const completed: Promise<boolean> = vitest.runFiles(specs).then(() => true);
+    // A run abandoned on timeout may still reject once the worker closes
+    completed.catch(() => {});
+
+    const finished = await Promise.race([
+      completed,
+      new Promise<boolean>(resolve => {
+        if (timeout) timer = setTimeout(() => resolve(false), timeout);
+      }),
+    ]);
+
+    if (!finished) {
+      logger.warn(`Vitest worker did not finish within ${timeout}ms, closing it`);
+      // A thread stuck in a loop can't send test updates, so only the file it was running is known
+      const unfinished = (vitest.state.getFiles(filepaths) as VitestTask[])
+        .filter(fileTask => !['pass', 'fail', 'skip', 'todo'].includes(fileTask.result?.state || ''));
+
+      // Closing terminates the worker threads, even one stuck in an infinite loop
+      await closeWorker(root);
+      return {
+        stdout: '',
+        stderr: '',
+        exitCode: null,
+        timedOut: true,
+        hungFile: unfinished.length === 1 ? unfinished[0].filepath : undefined,
+      };
+    }
+  } finally {
+    clearTimeout(timer);
+    process.exitCode = exitCode;
+  }
+
+  const results = toTestResults(vitest.state.getFiles(filepaths), Date.now() - startedAt);
+  const unhandledErrors: unknown[] = vitest.state.getUnhandledErrors();
+  const stderr = unhandledErrors.map(error => error instanceof Error ? error.stack || error.message : String(error)).join('\n');
+  if (stderr) {
+    logger.warn(`Vitest worker reported unhandled errors: ${stderr}`);
+  }
+
+  logger.info(`Vitest worker run completed in ${Date.now() - startedAt}ms`);
+  return {
+    stdout: '',
+    stderr,
+    exitCode: results.summary.failed > 0 || unhandledErrors.length > 0 ? 1 : 0,
+    results,
+  };
+}
+
+/**
+ * Closes every Vitest worker; call when the session ends so their servers don't keep the process alive
+ */
+export async function closeVitestWorkers(): Promise<void> {
+  await Promise.all(Array.from(workers.keys()).map(root => closeWorker(root)));
+}
+
+async function closeWorker(root: string): Promise<void> {
+  const worker = workers.get(root);
+  workers.delete(root);
+  try {
+    await (await worker)?.close();
+    logger.debug(`Closed Vitest worker for ${root}`);
+  } catch (error) {
+    logger.debug('Error closing Vitest worker:', error);
+  }
+}
+
+function getWorker(root: string): Promise<Vitest> {
+  let worker = workers.get(root);
+  if (!worker) {
+    worker = createWorker(root);
+    workers.set(root, worker);
+    // Let the next run try again instead of reusing the failure
+    worker.catch(() => workers.delete(root));
+  }
+  return worker;
+}
+
+async function createWorker(root: string): Promise<Vitest> {
+  const { createVitest } = await import(pathToFileURL(await resolveVitestNodeApi(root)).href);
+  if (typeof createVitest !== 'function') {
+    throw new Error('This version of Vitest does not provide createVitest');
+  }
+
+  logger.info(`Starting a Vitest worker in ${root}...`);
+  const vitest = await createVitest('test', {
+    root,
+    watch: false,
+    // Results are read from Vitest's state, so nothing needs reporting
+    reporters: [{}],
+  });
+
+  if (typeof vitest.runFiles !== 'function' || typeof vitest.globTestFiles !== 'function' || !vitest.state) {
+    await vitest.close?.();
+    throw new Error('This version of Vitest has an unsupported Node API');
+  }
+
+  return vitest;
+}
+
+/**
+ * Finds the project's own copy of vitest/node, so tests run with the Vitest version the project installed
+ * @throws Error if Vitest isn't installed or is a version the worker doesn't support
+ */
+async function resolveVitestNodeApi(root: string): Promise<string> {
+  const lookupPaths = createRequire(path.join(root, 'package.json')).resolve.paths('vitest') || [];
+
+  for (const modulesDir of lookupPaths) {
+    const packageDir = path.join(modulesDir, 'vitest');
+    const packageJsonPath = path.join(packageDir, 'package.json');
+    if (!await fileExists(packageJsonPath)) continue;
+
+    const packageJson = JSON.parse(await fs.readFile(packageJsonPath, 'utf-8'));
+    if (!SUPPORTED_VITEST_VERSIONS.test(packageJson.version || '')) {
+      throw new Error(`Vitest ${packageJson.version} is not a version the worker supports`);
+    }
+    const entry = packageJson.exports?.['./node'];
+    const target = typeof entry === 'string' ? entry : entry?.import?.default ?? entry?.import ?? entry?.default;
+    if (typeof target !== 'string') {
+      throw new Error(`Vitest ${packageJson.version} does not export a Node API`);
+    }
+    return path.join(packageDir, target);
+  }
+
+  throw new Error(`Vitest is not installed in ${root}`);
+}
+
+/**
+ * Converts Vitest file tasks into test results. Tests are named after their suites like the JSON
+ * reporter's full names; skipped and todo tests are left out.
+ */
+function toTestResults(fileTasks: VitestTask[], duration: number): TestResults {
+  const files: TestFileResult[] = fileTasks.map(fileTask => {
+    const tests: TestCaseResult[] = [];
+    collectTests(fileTask.tasks || [], [], tests);
+
+    // The file itself failed, e.g. a syntax error or a missing module
+    const fileError = fileTask.result?.state === 'fail' && tests.length === 0
+      ? describeErrors(fileTask) || 'Test file failed to run'
+      : undefined;
+    if (fileError) {
+      tests.push({ name: 'Test suite failed to run', success: false, error: fileError, duration: 0 });
+    }
+
+    return {
+      file: fileTask.filepath || fileTask.name,
+      success: tests.every(test => test.success),
+      tests,
+      error: fileError,
+    };
+  });
+
+  const allTests = files.flatMap(file => file.tests);
+  const summary = {
+    total: allTests.length,
+    passed: allTests.filter(test => test.success).length,
+    failed: allTests.filter(test => !test.success).length,
+    duration,
+  };
+
+  logger.info(`Collected ${files.length} test files with ${summary.total} tests (${summary.passed} passed, ${summary.failed} failed)`);
+  return { files, summary };
+}
+
+function collectTests(tasks: VitestTask[], ancestors: string[], tests: TestCaseResult[]): void {
+  for (const task of tasks) {
+    const names = [...ancestors, task.name];
+
+    if (task.tasks) {
+      // A suite whose hooks failed has no test results of its own to show the error on
+      const suiteError = task.result?.state === 'fail' ? describeErrors(task) : undefined;
+      if (suiteError) {
+        tests.push({ name: names.join(' '), success: false, error: suiteError, duration: task.result?.duration || 0 });
+      }
+      collectTests(task.tasks, names, tests);
+      continue;
+    }
+
+    const state = task.result?.state;
+    if (task.mode === 'skip' || task.mode === 'todo' || state === 'skip' || state === 'todo' || !state) {
+      continue;
+    }
+
+    tests.push({
+      name: names.join(' '),
+      success: state === 'pass',
+      error: state === 'pass' ? undefined : describeErrors(task) || 'Unknown error',
+      duration: task.result?.duration || 0,
+      location: task.location ? `${task.location.line}:${task.location.column}` : undefined,
+    });
+  }
+}
+
+function describeErrors(task: VitestTask): string | undefined {
+  const errors = task.result?.errors || [];
+  if (errors.length === 0) {
+    return undefined;
+  }
+
+  return errors.map(error => {
+    let message = `${error.name || 'Error'}: ${error.message || ''}`;
+    if (error.expected !== undefined && error.actual !== undefined) {
+      message += `\nExpected: ${error.expected}\nActual: ${error.actual}`;
+    }
+    const firstFrame = error.stack?.split('\n').find(line => line.trim().startsWith('at '));
+    if (firstFrame) {
+      message += `\n    ${firstFrame.trim()}`;
+    }
+    return message;
+  }).join('\n\n');
+}
@@ -0,0 +1,138 @@
+// src/runners/vitest.ts
+import path from 'path';
+import { TestRunnerAdapter, TestRunOptions, TestRunOutput, TestRunnerSettings, TestResults, PackageJsonInfo, FileCoverage } from '../types.js';
+import { parseVitestOutput } from '../utils/parse-output.js';
+import { logger } from '../utils/logger.js';
+import { runWithVitestWorker } from './vitest-worker.js';
+import { RunnerInvocation, runTestCommand, buildTestCommand, runIstanbulCoverage, toRelativePaths, toTestNamePattern, readPackageJson, hasDependency, hasAnyFile, fileExists } from './helpers.js';
+
+const CONFIG_FILES = [
+  'vitest.config.js',
+  'vitest.config.ts',
+  'vitest.config.mjs',
+  'vite.config.js',
+  'vite.config.ts',
+  'vite.config.mjs'
+];
+
+const INVOCATION: RunnerInvocation = {
+  command: 'npx',
+  args: ['vitest', 'run'],
+  reporterArgs: ['--reporter', 'json'],  // Use JSON reporter for easier parsing
+  watchArgs: ['--watch'],
+  // Vitest treats positional arguments as test file filters
+  fileArgs: files => files,
+  testNameArgs: names => ['--testNamePattern', toTestNamePattern(names)],
+  testTimeoutArgs: timeout => ['--testTimeout', String(timeout)],
+  label: 'Vitest',
+};
+
+/**
+ * Runs tests with `vitest run` and its JSON reporter
+ */
+export class VitestAdapter implements TestRunnerAdapter {
+  readonly name = 'vitest';
+  readonly filtersTestNames = true;
+
+  // Set once the persistent worker fails to start, so later runs go straight to the CLI
+  private workerUnavailable = false;
+
+  async detect(projectPath: string, packageJson: PackageJsonInfo | null): Promise<boolean> {
+    return hasDependency(packageJson, 'vitest') || await hasAnyFile(projectPath, CONFIG_FILES.filter(file => file.startsWith('vitest')));
+  }
+
+  async run(options: TestRunOptions, settings: TestRunnerSettings): Promise<TestRunOutput> {
+    if (settings.persistent && !options.watch && !this.workerUnavailable) {
+      const output = await this.runInWorker(options, settings);
+      if (output) {
+        return output;
+      }
+    }
+
+    // Check if Vitest is installed
+    await checkVitestInstallation(options.projectPath);
+
+    return runTestCommand(buildTestCommand(options, settings, INVOCATION));
+  }
+
+  async coverage(options: TestRunOptions, settings: TestRunnerSettings, sourceFiles: string[]): Promise<FileCoverage[]> {
+    // Needs @vitest/coverage-v8 in the project; Vitest reports it as missing otherwise
+    return runIstanbulCoverage(sourceFiles, reportDir => {
+      const command = buildTestCommand(options, settings, INVOCATION, [
+        '--coverage.enabled',
+        '--coverage.provider=v8',
+        '--coverage.reporter=json',
+        `--coverage.reportsDirectory=${reportDir}`,
+        '--coverage.all=false',
+      ]);
+      command.args.push(...toRelativePaths(command.cwd, sourceFiles).map(file => `--coverage.include=${file}`));
+      return command;
+    });
+  }
+
+  /**
+   * Runs the tests in the persistent Vitest worker
+   * @returns The run's output, or null to fall back to the CLI
+   */
+  private async runInWorker(options: TestRunOptions, settings: TestRunnerSettings): Promise<TestRunOutput | null> {
+    // A custom command, environment or memory limit only applies to a spawned process
+    if (settings.command || settings.args || settings.env || settings.memoryLimitMb) {
+      logger.debug('Custom test command, environment or memory limit configured, running Vitest through the CLI');
+      return null;
+    }
+
+    const { projectPath, files = [], testNames = [] } = options;
+    try {
+      return await runWithVitestWorker({
+        root: settings.cwd ? path.resolve(projectPath, settings.cwd) : projectPath,
+        files: files.map(file => path.resolve(projectPath, file)),
+        testNamePattern: testNames.length > 0 ? toTestNamePattern(testNames) : undefined,
+        timeout: settings.timeout,
+        testTimeout: settings.testTimeout,
+      });
+    } catch (error) {
+      this.workerUnavailable = true;
+      logger.warn(`Could not use a persistent Vitest worker, falling back to the CLI: ${error instanceof Error ? error.message : String(error)}`);
+      return null;
+    }
+  }
+
+  parse(output: TestRunOutput): TestResults {
+    return parseVitestOutput(output.stdout);
+  }
+}
+
+/**
+ * Checks if Vitest is installed in the project
+ */
+async function checkVitestInstallation(projectPath: string): Promise<void> {
+  try {
+    // Check if there's a package.json
+    const packageJsonPath = path.join(projectPath, 'package.json');
+
+    if (!await fileExists(packageJsonPath)) {
+      logger.warn(`No package.json found in ${projectPath} - Vitest might not be installed`);
+      return;
+    }
+
+    if (!hasDependency(await readPackageJson(projectPath), 'vitest')) {
+      logger.warn('Vitest is not listed in package.json dependencies');
+      logger.info('Will attempt to use npx to run Vitest');
+    } else {
+      logger.debug('Vitest found in package.json');
+    }
+
+    // Check if node_modules exists
+    if (!await fileExists(path.join(projectPath, 'node_modules'))) {
+      logger.warn('node_modules directory not found. Dependencies may not be installed.');
+      logger.info('Will attempt to use npx to run Vitest');
+    }
+
+    if (!await hasAnyFile(projectPath, CONFIG_FILES)) {
+      logger.info('No Vitest/Vite config file found. Using default configuration.');
+    }
+  } catch (error) {
+    logger.warn('Error checking Vitest installation:', error);
+    logger.info('Will attempt to proceed with tests anyway');
+  }
+}
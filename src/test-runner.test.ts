@@ -0,0 +1,117 @@
+// src/test-runner.test.ts
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { runTests, closeTestRunners } from './test-runner.js';
+import { registerTestRunner } from './runners/index.js';
+import { TddAiConfig } from './utils/config.js';
+import { TestRunOptions, TestRunOutput, TestResults, TestFileResult } from './types.js';
+
+// Tests in each fake test file; once the implementation is broken, 'loop spins' never finishes
+// and 'loop waits' is stuck on a promise
+const TESTS: Record<string, string[]> = {
+  'ok.test.ts': ['adds'],
+  'loop.test.ts': ['loop returns early', 'loop spins', 'loop waits'],
+};
+let broken = false;
+
+// Runs the fake tests, getting stuck like a real runner would
+registerTestRunner({
+  name: 'stuck',
+  filtersTestNames: true,
+  async detect() {
+    return false;
+  },
+  async run({ projectPath, files = [], testNames = [] }: TestRunOptions, settings): Promise<TestRunOutput> {
+    const selected = (files.length > 0 ? files : Object.keys(TESTS)).map(file => path.resolve(projectPath, file));
+    const results: TestFileResult[] = selected.map(file => {
+      const names = TESTS[path.basename(file)].filter(name => testNames.length === 0 || testNames.includes(name));
+      return {
+        file,
+        success: !broken || !names.includes('loop waits'),
+        tests: names.map(name => ({
+          name,
+          success: !broken || name !== 'loop waits',
+          error: broken && name === 'loop waits' ? `Test timed out in ${settings.testTimeout}ms.` : undefined,
+          duration: 1,
+        })),
+      };
+    });
+
+    const tests = results.flatMap(file => file.tests);
+    const spins = tests.some(test => test.name === 'loop spins');
+    // Without a test timeout below the run's, the stuck promise stops the run too
+    const waitsTooLong = tests.some(test => test.name === 'loop waits') && !settings.testTimeout;
+    if (broken && (spins || waitsTooLong)) {
+      return { stdout: '', stderr: '', exitCode: null, timedOut: true };
+    }
+    return { stdout: JSON.stringify(results), stderr: '', exitCode: results.every(file => file.success) ? 0 : 1 };
+  },
+  parse(output: TestRunOutput): TestResults {
+    const files: TestFileResult[] = JSON.parse(output.stdout);
+    const tests = files.flatMap(file => file.tests);
+    const passed = tests.filter(test => test.success).length;
+    return { files, summary: { total: tests.length, passed, failed: tests.length - passed, duration: 0 } };
+  },
+});
+
+describe('runTests', () => {
+  let projectPath: string;
+  const config = {
+    testRunner: { adapter: 'stuck', timeout: 1000 },
+    project: { testFilePattern: '**/*.test.ts' },
+  } as TddAiConfig;
+
+  beforeAll(async () => {
+    projectPath = await fs.mkdtemp(path.join(os.tmpdir(), 'tdd-ai-stuck-'));
+    await Promise.all(Object.keys(TESTS).map(file => fs.writeFile(path.join(projectPath, file), '')));
+  });
+
+  afterAll(async () => {
+    await fs.rm(projectPath, { recursive: true, force: true });
+  });
+
+  it('reports the test a stuck full run hangs in as a failing test', async () => {
+    expect((await runTests({ projectPath }, config)).success).toBe(true);
+    broken = true;
+
+    const result = await runTests({ projectPath }, config);
+
+    expect(result.success).toBe(false);
+    expect(result.results?.files).toEqual([{
+      file: path.join(projectPath, 'loop.test.ts'),
+      success: false,
+      error: expect.any(String),
+      tests: [{
+        name: 'loop spins',
+        success: false,
+        error: expect.stringMatching(/^Test "loop spins" timed out after 1000 ms\./),
+        duration: 0,
+      }],
+    }]);
+  });
+
+  it('lets the runner name a test stuck on a promise', async () => {
+    broken = true;
+    const result = await runTests({ projectPath, files: ['loop.test.ts'], testNames: ['loop returns early', 'loop waits'] }, config);
+
+    expect(result.results?.files[0].tests).toEqual([
+      { name: 'loop waits', success: false, error: 'Test timed out in 500ms.', duration: 1 },
+    ]);
+  });
+
+  it('forgets the tests it has seen once the runners are closed', async () => {
+    broken = true;
+    await closeTestRunners();
+
+    const result = await runTests({ projectPath }, config);
+
+    expect(result.results?.files[0].tests).toEqual([{
+      name: 'loop.test.ts',
+      success: false,
+      error: expect.stringMatching(/^A test in loop\.test\.ts timed out after 1000 ms\./),
+      duration: 0,
+    }]);
+  });
+});
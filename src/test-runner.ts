@@ -1,86 +1,82 @@
 // src/test-runner.ts
-import { execa } from 'execa';
-import { parseVitestOutput } from './utils/parse-output.js';
-import { TestRunOptions, TestResult } from './types.js';
-import { logger } from './utils/logger.js';
-import fs from 'fs/promises';
 import path from 'path';
+import { glob } from 'glob';
+import { resolveTestRunner } from './runners/index.js';
+import { killProcessTree } from './runners/helpers.js';
+import { closeVitestWorkers } from './runners/vitest-worker.js';
+import { TestRunOptions, TestResult, TestResults, TestFileResult, TestRunOutput, TestRunnerAdapter, TestRunnerSettings, FileCoverage } from './types.js';
+import { TddAiConfig } from './utils/config.js';
+import { logger } from './utils/logger.js';
+
+// How Node reports a process or worker thread that hit its heap limit
+const OUT_OF_MEMORY_REGEX = /JavaScript heap out of memory|ERR_WORKER_OUT_OF_MEMORY|reached heap limit/i;
+
+// How Vitest, Jest and node:test word a test that exceeded its own timeout
+const TEST_TIMEOUT_REGEX = /timed out|exceeded timeout/i;
+
+// Names of the tests last reported in each test file, by project, so a run that gets stuck can be narrowed to one test
+const knownTests = new Map<string, Map<string, string[]>>();
 
 /**
- * Runs Vitest and captures test results
+ * Runs the project's tests with the configured or detected test runner and captures the results
  * @param options - Test runner options
+ * @param config - Application configuration; config.testRunner selects and configures the runner
  * @returns Promise with test results
  */
-export async function runTests(options: TestRunOptions): Promise<TestResult> {
-  const { projectPath, watch = false } = options;
+export async function runTests(options: TestRunOptions, config?: TddAiConfig): Promise<TestResult> {
+  const { projectPath, watch = false, files = [] } = options;
 
-  logger.info(`Running tests in ${projectPath} (watch mode: ${watch})`);
+  logger.info(`Running tests in ${projectPath} (watch mode: ${watch})${files.length > 0 ? ` for ${files.join(', ')}` : ''}`);
   logger.divider('debug');
 
   try {
-    // Check if Vitest is installed
-    await checkVitestInstallation(projectPath);
-
-    // Start Vitest process
-    logger.info('Starting Vitest process...');
-    const vitestProcess = execa('npx', [
-      'vitest', 'run',
-      '--reporter', 'json',  // Use JSON reporter for easier parsing
-      ...(watch ? ['--watch'] : [])
-    ], {
-      cwd: projectPath,
-      reject: false, // Don't throw on test failure
-      env: {
-        ...process.env,
-        FORCE_COLOR: 'true'  // Ensure colors are enabled
-      }
-    });
+    const adapter = await resolveTestRunner(projectPath, config);
+    logger.debug(`Using the ${adapter.name} test runner`);
 
-    let output = '';
-    let errorOutput = '';
+    const settings = config?.testRunner ?? {};
+    const output = await adapter.run(options, settings);
 
-    // Capture standard output
-    vitestProcess.stdout?.on('data', (data) => {
-      const chunk = data.toString();
-      output += chunk;
-      logger.debug(`Vitest stdout: ${chunk.substring(0, 200)}${chunk.length > 200 ? '...' : ''}`);
-    });
+    if (output.timedOut) {
+      logger.error(`${adapter.name} run timed out after ${settings.timeout ?? 0}ms`);
+      return reportStoppedRun(adapter, options, settings, output, `timed out after ${settings.timeout ?? 0} ms`, config);
+    }
 
-    // Capture error output
-    vitestProcess.stderr?.on('data', (data) => {
-      const chunk = data.toString();
-      errorOutput += chunk;
-      logger.warn(`Vitest stderr: ${chunk}`);
-    });
+    // If we have an exit code but no output, something went wrong
+    if (!watch && !output.results && output.exitCode !== 0 && output.stdout.trim() === '') {
+      if (isOutOfMemoryCrash(output)) {
+        const limit = settings.memoryLimitMb;
+        logger.error(`${adapter.name} ran out of memory`);
+        return reportStoppedRun(adapter, options, settings, output, `ran out of memory${limit ? ` (limit ${limit} MB)` : ''} and crashed`, config);
+      }
 
-    // Wait for the process to complete when not in watch mode
-    if (!watch) {
-      logger.debug('Waiting for Vitest process to complete...');
-      const result = await vitestProcess;
-      logger.info(`Vitest process completed with exit code: ${result.exitCode}`);
-
-      // If we have an exit code but no output, something went wrong
-      if (result.exitCode !== 0 && output.trim() === '') {
-        logger.error('Vitest process failed with no output');
-        if (errorOutput) {
-          logger.error('Error output:', errorOutput);
-        }
-        return {
-          success: false,
-          error: errorOutput || `Vitest process failed with exit code ${result.exitCode}`
-        };
+      logger.error(`${adapter.name} process failed with no output`);
+      if (output.stderr) {
+        logger.error('Error output:', output.stderr);
       }
+      return {
+        success: false,
+        error: output.stderr || `${adapter.name} process failed with exit code ${output.exitCode}`
+      };
     }
 
-    // If we didn't get any output but we have error output, use that
-    if (output.trim() === '' && errorOutput) {
-      logger.warn('No standard output from Vitest, using error output');
-      output = `{"error": "${errorOutput.replace(/"/g, '\\"')}"}`;
+    let testResults = output.results;
+    if (!testResults) {
+      logger.debug(`Parsing ${adapter.name} output...`);
+      testResults = adapter.parse(output);
     }
 
-    logger.debug('Parsing Vitest output...');
-    // Parse test results
-    const testResults = parseVitestOutput(output);
+    // Runners report a test process that hit the memory limit with V8's raw heap report; lead with what happened
+    for (const test of testResults.files.flatMap(file => file.tests)) {
+      if (!test.success && test.error && OUT_OF_MEMORY_REGEX.test(test.error)) {
+        const limit = config?.testRunner.memoryLimitMb;
+        test.error = `Test ran out of memory${limit ? ` (limit ${limit} MB)` : ''}, likely from unbounded recursion or allocation.\n${test.error}`;
+      }
+    }
+
+    // A run narrowed to some tests doesn't report the rest of the file
+    if (!options.testNames?.length) {
+      rememberTests(projectPath, testResults);
+    }
 
     // Log file paths for debugging
     if (testResults.files && testResults.files.length > 0) {
@@ -90,30 +86,12 @@ export async function runTests(options: TestRunOptions): Promise<TestResult> {
       });
     }
 
-    // Analyze raw output for debugging
-    if (output && output.length > 0 && output.includes('"testResults"')) {
-      try {
-        const parsedOutput = JSON.parse(output);
-
-        if (Array.isArray(parsedOutput.testResults)) {
-          logger.debug('Raw testResults from Vitest:');
-          parsedOutput.testResults.forEach((result: any, i: number) => {
-            const filePath = result.name || result.filepath || result.file || `unknown-${i}`;
-            const failedAssertions = result.assertionResults?.filter((a: any) => a.status === 'failed')?.length || 0;
-            logger.debug(`  [${i}] ${filePath} (failed: ${failedAssertions}, status: ${result.status})`);
-          });
-        }
-      } catch (e) {
-        logger.debug('Could not parse raw output for additional debugging');
-      }
-    }
-
     logger.info(`Test results summary: ${testResults.summary.passed}/${testResults.summary.total} tests passed`);
 
     return {
-      success: vitestProcess.exitCode === 0,
+      success: output.exitCode === 0,
       results: testResults,
-      process: watch ? vitestProcess : undefined, // Return process handle if in watch mode
+      process: watch ? output.process : undefined, // Return process handle if in watch mode
     };
   } catch (error) {
     logger.error('Error running tests:', error);
@@ -125,81 +103,183 @@ export async function runTests(options: TestRunOptions): Promise<TestResult> {
 }
 
 /**
- * Checks if Vitest is installed in the project
+ * Runs the tests with V8 coverage and measures how much of the given source files they run
+ * @param options - Test runner options
+ * @param sourceFiles - Absolute paths of the files to measure
+ * @param config - Application configuration
+ * @returns Coverage per source file, or an error if the runner can't collect coverage
  */
-async function checkVitestInstallation(projectPath: string): Promise<void> {
+export async function runCoverage(
+  options: TestRunOptions,
+  sourceFiles: string[],
+  config?: TddAiConfig
+): Promise<{ success: boolean; files?: FileCoverage[]; error?: string }> {
   try {
-    // Check if there's a package.json
-    const packageJsonPath = path.join(projectPath, 'package.json');
-    const packageJsonExists = await fileExists(packageJsonPath);
-
-    if (!packageJsonExists) {
-      logger.warn(`No package.json found in ${projectPath} - Vitest might not be installed`);
-      return;
+    const adapter = await resolveTestRunner(options.projectPath, config);
+    if (!adapter.coverage) {
+      return { success: false, error: `The ${adapter.name} test runner does not support coverage` };
     }
 
-    const packageJsonContent = await fs.readFile(packageJsonPath, 'utf-8');
-    const packageJson = JSON.parse(packageJsonContent);
+    logger.info(`Measuring coverage of ${sourceFiles.length} files with ${adapter.name}...`);
+    const files = await adapter.coverage(options, config?.testRunner ?? {}, sourceFiles);
+    files.forEach(file => {
+      logger.debug(`  ${file.file}: ${file.linePercent}% lines, ${file.branchPercent}% branches`);
+    });
 
-    // Check if vitest is in dependencies or devDependencies
-    const hasVitest =
-      (packageJson.dependencies && packageJson.dependencies.vitest) ||
-      (packageJson.devDependencies && packageJson.devDependencies.vitest);
+    return { success: true, files };
+  } catch (error) {
+    logger.error('Error measuring coverage:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Reports a run that was stopped by a resource limit as a failing test, so the model sees it like any
+ * other failure. Unless the runner knows the file it was stuck in, the test files are rerun one at a
+ * time to find it, then its tests one at a time to find the test. Reruns use a per-test timeout below
+ * the run's, so a test stuck on a promise is reported by the runner itself.
+ * @param adapter - Runner of the stopped run
+ * @param options - Options of the stopped run
+ * @param settings - Test runner settings
+ * @param output - Output of the stopped run
+ * @param outcome - What happened, e.g. 'timed out after 30000 ms'
+ * @param config - Application configuration
+ */
+async function reportStoppedRun(
+  adapter: TestRunnerAdapter,
+  options: TestRunOptions,
+  settings: TestRunnerSettings,
+  output: TestRunOutput,
+  outcome: string,
+  config?: TddAiConfig
+): Promise<TestResult> {
+  const { projectPath, files = [], testNames = [] } = options;
+  const rerunSettings: TestRunnerSettings = settings.timeout
+    ? { ...settings, testTimeout: Math.min(settings.testTimeout || Infinity, Math.floor(settings.timeout / 2)) }
+    : settings;
 
-    if (!hasVitest) {
-      logger.warn('Vitest is not listed in package.json dependencies');
-      logger.info('Will attempt to use npx to run Vitest');
+  let file = output.hungFile;
+  if (!file) {
+    const candidates = files.length > 0
+      ? files.map(file => path.resolve(projectPath, file))
+      : await findTestFiles(projectPath, config);
+
+    if (candidates.length === 1) {
+      file = candidates[0];
     } else {
-      logger.debug('Vitest found in package.json');
+      const fileResults: TestFileResult[] = [];
+      for (const candidate of candidates) {
+        logger.info(`Rerunning ${path.relative(projectPath, candidate)} on its own to find where the tests got stuck`);
+        const rerun = await rerunTests(adapter, { projectPath, files: [candidate], testNames }, rerunSettings);
+        if (!rerun) {
+          file = candidate;
+          break;
+        }
+        fileResults.push(...rerun);
+      }
+
+      if (!file && candidates.length > 0) {
+        // Every file finished on its own, so together their results are the whole suite's
+        logger.warn(`The test run ${outcome}, but every test file finished when rerun on its own; using those results`);
+        return toTestResult(fileResults);
+      }
     }
+  }
 
-    // Check if node_modules exists
-    const nodeModulesPath = path.join(projectPath, 'node_modules');
-    const nodeModulesExists = await fileExists(nodeModulesPath);
+  if (!file) {
+    return { success: false, error: `Tests ${outcome} and no test files were found to rerun.` };
+  }
 
-    if (!nodeModulesExists) {
-      logger.warn('node_modules directory not found. Dependencies may not be installed.');
-      logger.info('Will attempt to use npx to run Vitest');
-    }
+  // Tests of the file the run was narrowed to, else the ones it reported last time
+  const names = testNames.length > 0 ? testNames : knownTests.get(projectPath)?.get(file) ?? [];
+  let testName = names.length === 1 ? names[0].trim() : undefined;
 
-    // Check if vitest config exists
-    const possibleConfigFiles = [
-      'vitest.config.js',
-      'vitest.config.ts',
-      'vite.config.js',
-      'vite.config.ts'
-    ];
-
-    let configFileFound = false;
-    for (const configFile of possibleConfigFiles) {
-      const configPath = path.join(projectPath, configFile);
-      if (await fileExists(configPath)) {
-        logger.debug(`Found config file: ${configFile}`);
-        configFileFound = true;
+  if (!testName && adapter.filtersTestNames) {
+    for (const name of names) {
+      logger.info(`Rerunning "${name}" on its own to find the stuck test`);
+      const rerun = await rerunTests(adapter, { projectPath, files: [file], testNames: [name] }, rerunSettings);
+      if (!rerun) {
+        testName = name.trim();
         break;
       }
-    }
 
-    if (!configFileFound) {
-      logger.info('No Vitest/Vite config file found. Using default configuration.');
+      // The runner's own test timeout named the test
+      const timedOut = rerun.some(result => result.tests.some(test => !test.success && TEST_TIMEOUT_REGEX.test(test.error || '')));
+      if (timedOut) {
+        return toTestResult(rerun);
+      }
     }
+  }
 
-  } catch (error) {
-    logger.warn('Error checking Vitest installation:', error);
-    logger.info('Will attempt to proceed with tests anyway');
+  const subject = testName ? `Test "${testName}"` : `A test in ${path.relative(projectPath, file)}`;
+  const error = `${subject} ${outcome}. The implementation may contain an infinite loop, unbounded recursion or a promise that never settles.`;
+  logger.error(error);
+
+  return {
+    success: false,
+    error,
+    results: {
+      files: [{ file, success: false, tests: [{ name: testName ?? path.basename(file), success: false, error, duration: 0 }], error }],
+      summary: { total: 1, passed: 0, failed: 1, duration: 0 },
+    },
+  };
+}
+
+/**
+ * Runs tests again after a stopped run
+ * @returns The file results, or null if this run got stopped too
+ */
+async function rerunTests(adapter: TestRunnerAdapter, options: TestRunOptions, settings: TestRunnerSettings): Promise<TestFileResult[] | null> {
+  const output = await adapter.run(options, settings);
+  if (output.timedOut || (!output.results && output.stdout.trim() === '' && isOutOfMemoryCrash(output))) {
+    return null;
   }
+
+  return (output.results ?? adapter.parse(output)).files;
+}
+
+function toTestResult(files: TestFileResult[]): TestResult {
+  const tests = files.flatMap(file => file.tests);
+  const passed = tests.filter(test => test.success).length;
+  return {
+    success: files.every(file => file.success),
+    results: {
+      files,
+      summary: { total: tests.length, passed, failed: tests.length - passed, duration: 0 },
+    },
+  };
 }
 
 /**
- * Helper to check if a file exists
+ * Finds the project's test files, for narrowing down a stuck run that named none
  */
-async function fileExists(filePath: string): Promise<boolean> {
-  try {
-    await fs.access(filePath);
-    return true;
-  } catch {
-    return false;
+async function findTestFiles(projectPath: string, config?: TddAiConfig): Promise<string[]> {
+  if (!config) {
+    return Array.from(knownTests.get(projectPath)?.keys() ?? []);
   }
+  return glob(config.project.testFilePattern, { cwd: projectPath, absolute: true, ignore: '**/node_modules/**' });
+}
+
+function rememberTests(projectPath: string, results: TestResults): void {
+  let projectTests = knownTests.get(projectPath);
+  if (!projectTests) {
+    projectTests = new Map();
+    knownTests.set(projectPath, projectTests);
+  }
+
+  for (const file of results.files) {
+    // A file that failed to load reports no real test names
+    if (!file.error) {
+      projectTests.set(path.resolve(projectPath, file.file), file.tests.map(test => test.name));
+    }
+  }
+}
+
+function isOutOfMemoryCrash(output: TestRunOutput): boolean {
+  return output.exitCode !== 0 && OUT_OF_MEMORY_REGEX.test(output.stderr);
 }
 
 /**
@@ -209,7 +289,20 @@ async function fileExists(filePath: string): Promise<boolean> {
 export async function stopTests(testProcess: TestResult): Promise<void> {
   if (testProcess && testProcess.process) {
     logger.info('Stopping test process...');
-    testProcess.process.kill();
+    if (testProcess.process.pid !== undefined) {
+      killProcessTree(testProcess.process.pid);
+    } else {
+      testProcess.process.kill();
+    }
     logger.debug('Test process stopped');
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Shuts down test runners kept alive between runs (see config.testRunner.persistent)
+ * and forgets the tests they reported
+ */
+export async function closeTestRunners(): Promise<void> {
+  knownTests.clear();
+  await closeVitestWorkers();
+}
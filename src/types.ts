@@ -1,9 +1,14 @@
 // src/types.ts
+import type { ChildProcess } from 'child_process';
 
 // Test runner types
 export interface TestRunOptions {
   projectPath: string;
   watch?: boolean;
+  // Only run these test files (absolute or project-relative paths)
+  files?: string[];
+  // Only run tests with these full names, where the runner supports filtering by name
+  testNames?: string[];
 }
 
 export interface TestResult {
@@ -14,6 +19,61 @@ export interface TestResult {
   rawOutput?: string;
 }
 
+// How the test runner is invoked, from config.testRunner; unset fields use the adapter's defaults
+export interface TestRunnerSettings {
+  // Executable, e.g. 'pnpm' instead of 'npx'
+  command?: string;
+  // Arguments before the reporter and test file arguments, e.g. ['exec', 'vitest', 'run']
+  args?: string[];
+  // Add the adapter's machine-readable reporter arguments unless args already pass the same reporter flag
+  jsonReporter?: boolean;
+  // Milliseconds before the run is stopped, killing every process it started
+  timeout?: number;
+  // Milliseconds each test may take, passed to the runner; unset keeps the project's own setting
+  testTimeout?: number;
+  // Heap limit in megabytes for the runner's Node processes
+  memoryLimitMb?: number;
+  // Extra environment variables for the run
+  env?: Record<string, string>;
+  // Directory to run in, relative to the project, e.g. a package in a monorepo
+  cwd?: string;
+  // Keep a test runner instance alive between runs instead of starting a process each time (Vitest only)
+  persistent?: boolean;
+}
+
+// Raw output of a test run, before the adapter parses it
+export interface TestRunOutput {
+  stdout: string;
+  stderr: string;
+  // Null while the process is still running (watch mode) or after it was killed
+  exitCode: number | null;
+  timedOut?: boolean;
+  // Test file a timed-out run was stuck in, when the runner can tell
+  hungFile?: string;
+  process?: ChildProcess;
+  // Results from a runner that reports them directly, so there is no output to parse
+  results?: TestResults;
+}
+
+export interface PackageJsonInfo {
+  scripts?: Record<string, string>;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  [key: string]: unknown;
+}
+
+export interface TestRunnerAdapter {
+  readonly name: string;
+  // Whether run() narrows a run to options.testNames rather than running the whole files
+  readonly filtersTestNames?: boolean;
+  // Whether the project uses this runner, judging by its package.json and config files
+  detect: (projectPath: string, packageJson: PackageJsonInfo | null) => Promise<boolean>;
+  run: (options: TestRunOptions, settings: TestRunnerSettings) => Promise<TestRunOutput>;
+  // Runs the tests with V8 coverage and returns the coverage of the given source files
+  coverage?: (options: TestRunOptions, settings: TestRunnerSettings, sourceFiles: string[]) => Promise<FileCoverage[]>;
+  parse: (output: TestRunOutput) => TestResults;
+}
+
 export interface TestResults {
   files: TestFileResult[];
   summary: TestSummary;
@@ -44,14 +104,35 @@ export interface TestCaseResult {
 }
 
 // AI service types
+export interface DeadCodeOptions {
+  implementationPath: string;
+  implementation: string;
+  testCode: string;
+  coverage: FileCoverage;
+  model?: string;
+  signal?: AbortSignal;
+}
+
 export interface GenerateOptions {
   testResults: TestFileResult;
   testCode: string;
+  testFilePath?: string;
   implementationPath: string;
+  projectPath?: string;
   currentImplementation?: string;
+  onProgress?: (progress: GenerationProgress) => void;
+  signal?: AbortSignal;
+  // Overrides config.ai.model for this generation
+  model?: string;
+  // Called after each tool call in agent mode
+  onToolCall?: (call: ToolCallRecord) => void;
+  // Candidate number when several implementations are generated per attempt
+  candidate?: number;
   previousAttempts?: Array<{
     attempt: number;
     implementation: string;
+    // The model's explanation of its plan for the attempt
+    explanation?: string;
     testResults?: {
       passingTests: number;
       failingTests: number;
@@ -63,13 +144,134 @@ export interface GenerateOptions {
   }>;
 }
 
+export interface GenerationProgress {
+  characters: number;
+  tokens: number;
+  preview: string;
+}
+
 export interface GenerateResult {
   success: boolean;
   code?: string;
+  // The model's explanation of its plan, separate from the code
   reasoning?: string;
   error?: string;
   message?: string;
   diagnosticInfo?: Record<string, any>;
+  edits?: EditSummary;
+  files?: FileChange[];
+  toolCalls?: ToolCallRecord[];
+}
+
+export interface ToolCallRecord {
+  step: number;
+  tool: string;
+  args: Record<string, unknown>;
+  // Tool output as shown to the model, shortened for the history
+  output: string;
+  error?: string;
+}
+
+export interface CandidateResult {
+  // 1-based position in the order candidates were generated
+  index: number;
+  code?: string;
+  files?: FileChange[];
+  // Total characters written, used to break ties
+  size: number;
+  totalTests: number;
+  passingTests: number;
+  failingTests: number;
+  selected: boolean;
+  error?: string;
+}
+
+export interface FileChange {
+  path: string;
+  action: 'create' | 'modify';
+  content: string;
+}
+
+export interface EditSummary {
+  requested: number;
+  applied: number;
+  failures: Array<{
+    search: string;
+    reason: string;
+  }>;
+  fellBackToFullRewrite: boolean;
+}
+
+// AI provider types
+export interface AiMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface AiCompletionRequest {
+  system?: string;
+  messages: AiMessage[];
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  signal?: AbortSignal;
+  // What the call is for, used to break down session usage (e.g. 'generation', 'validation')
+  purpose?: string;
+  // Distinguishes deliberately repeated requests, such as candidates, so each gets its own cached response
+  variant?: number;
+}
+
+export interface AiUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface RetryInfo {
+  // Retry number, starting at 1
+  retry: number;
+  maxRetries: number;
+  delayMs: number;
+  reason: string;
+  errorType: string;
+}
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  estimatedCostUsd: number;
+}
+
+export interface SessionUsage extends UsageTotals {
+  // Calls whose token counts were estimated because the provider didn't report them
+  estimatedCalls: number;
+  // Models with no known pricing, counted as free
+  unpricedModels: string[];
+  byPurpose: Record<string, UsageTotals>;
+  byModel: Record<string, UsageTotals>;
+}
+
+export interface AiCompletionResult {
+  text: string;
+  model: string;
+  usage?: AiUsage;
+  stopReason?: string;
+}
+
+export interface AiJsonResult<T = unknown> extends AiCompletionResult {
+  data: T;
+}
+
+export interface AiProvider {
+  readonly name: string;
+  readonly model: string;
+  complete: (request: AiCompletionRequest) => Promise<AiCompletionResult>;
+  completeJson: <T = unknown>(request: AiCompletionRequest) => Promise<AiJsonResult<T>>;
+  stream: (request: AiCompletionRequest, onText: (delta: string) => void) => Promise<AiCompletionResult>;
+  countTokens: (text: string) => number;
+  // Forgets a response the caller rejected, so a cache doesn't serve it again
+  discard?: (result: AiCompletionResult) => Promise<void>;
 }
 
 export interface ApplyCodeOptions {
@@ -93,6 +295,7 @@ export interface OrchestratorOptions {
   debugMode?: boolean;
   skipValidation?: boolean;
   onValidationIssue?: (issues: TestValidationStatus, testFilePath: string) => Promise<boolean>;
+  signal?: AbortSignal;
 }
 
 export interface TddAiState {
@@ -101,16 +304,63 @@ export interface TddAiState {
   allTestsPassing: boolean;
   history: ImplementationAttempt[];
   errors?: string[];
-  diagnosticInfo?: Record<string, any>;
+  diagnosticInfo?: DiagnosticInfo;
+  usage?: SessionUsage;
+  budgetExceeded?: boolean;
+  // Coverage of the implementation once all tests pass, if config.coverage is enabled
+  coverage?: CoverageReport;
+}
+
+// How much of a source file the tests run
+export interface FileCoverage {
+  file: string;
+  linePercent: number;
+  // 100 when the file has no branches
+  branchPercent: number;
+  uncoveredLines: number[];
+  // Lines with a branch no test takes, e.g. an if whose else path never runs; empty if the runner only reports percentages
+  uncoveredBranchLines: number[];
+}
+
+export interface CoverageReport {
+  generatedAt: Date;
+  files: FileCoverage[];
+  // Where the report was written
+  reportPath?: string;
+  // Files the model removed unused code from, with the tests still passing afterwards
+  deadCodeRemoved?: string[];
+}
+
+// A test run made at the start of an attempt
+export interface TestRunRecord {
+  // 'targeted' reruns only the tests that failed last time; 'full' runs the whole suite
+  scope: 'targeted' | 'full';
+  files?: string[];
+  testNames?: string[];
+  durationMs: number;
+  success: boolean;
+  passingTests: number;
+  failingTests: number;
 }
 
 export interface ImplementationAttempt {
   timestamp: Date;
   attempt: number;
   implementation: string;
+  // The model's explanation of its plan for this attempt
+  explanation?: string;
+  // Model that generated the implementation
+  model?: string;
   fileUpdated?: string;
   success?: boolean;
   error?: string;
+  edits?: EditSummary;
+  files?: FileChange[];
+  candidates?: CandidateResult[];
+  toolCalls?: ToolCallRecord[];
+  // Test runs that produced testResults, in order; a targeted run is followed by a full one when it passes
+  testRuns?: TestRunRecord[];
+  // Counts for the whole suite, with tests a targeted run skipped taken from their latest run
   testResults?: {
     totalTests: number;
     passingTests: number;
@@ -125,13 +375,20 @@ export interface ImplementationAttempt {
 export type StatusUpdateType =
   | 'running_tests'
   | 'generating_code'
+  | 'generation_progress'
   | 'implementation_updated'
   | 'success'
   | 'error'
   | 'max_attempts_reached'
   | 'diagnostic_info'
   | 'validation_warning'
-  | 'validation_waiting';
+  | 'validation_waiting'
+  | 'budget_exceeded'
+  | 'retrying'
+  | 'candidate_evaluated'
+  | 'model_switched'
+  | 'agent_tool_call'
+  | 'coverage_report';
 
 export interface StatusUpdate {
   status: StatusUpdateType;
@@ -143,6 +400,17 @@ export interface StatusUpdate {
   diagnosticInfo?: Record<string, any>;
   validationIssues?: TestValidationIssue[];
   validationAssessment?: string;
+  progress?: GenerationProgress;
+  usage?: SessionUsage;
+  retry?: RetryInfo;
+  candidate?: CandidateResult;
+  candidateCount?: number;
+  model?: string;
+  previousModel?: string;
+  toolCall?: ToolCallRecord;
+  // The model's explanation of its plan, on implementation_updated
+  explanation?: string;
+  coverage?: CoverageReport;
 }
 
 // Test validation types
@@ -168,6 +436,7 @@ export interface UiServerOptions {
 
 export interface UiServer {
   stop: () => Promise<void>;
+  broadcastUpdate: (update: StatusUpdate) => void;
 }
 
 // Diagnostic types
@@ -185,5 +454,6 @@ export interface DiagnosticInfo {
     testRuns: number;
     generationRuns: number;
     errorCount: number;
+    usage?: SessionUsage;
   };
 }
\ No newline at end of file
@@ -0,0 +1,42 @@
+// src/ui/server.test.ts
+import { describe, it, expect } from 'vitest';
+import net from 'net';
+import { startUiServer } from './server.js';
+
+async function findFreePort(): Promise<number> {
+  const probe = net.createServer();
+  await new Promise<void>(resolve => probe.listen(0, resolve));
+  const { port } = probe.address() as net.AddressInfo;
+  await new Promise<void>(resolve => probe.close(() => resolve()));
+  return port;
+}
+
+describe('startUiServer', () => {
+  it('keeps the latest generation progress for clients that ask for the status', async () => {
+    const port = await findFreePort();
+    const server = await startUiServer({ port, projectPath: '/project' });
+
+    try {
+      server.broadcastUpdate({
+        status: 'generation_progress',
+        file: '/project/math.ts',
+        attempt: 2,
+        progress: { characters: 42, tokens: 11, preview: 'export function add' },
+      });
+
+      const response = await fetch(`http://localhost:${port}/api/status`);
+      expect(await response.json()).toEqual({
+        status: 'running',
+        projectPath: '/project',
+        lastUpdate: {
+          status: 'generation_progress',
+          file: '/project/math.ts',
+          attempt: 2,
+          progress: { characters: 42, tokens: 11, preview: 'export function add' },
+        },
+      });
+    } finally {
+      await server.stop();
+    }
+  });
+});
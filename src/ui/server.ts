@@ -6,7 +6,10 @@ import path from 'path';
 import { UiServerOptions, UiServer, StatusUpdate } from '../types.js';
 
 /**
- * Starts a web UI server for monitoring the TDD-AI process
+ * Starts a web UI server for monitoring the TDD-AI process.
+ * Every status update, including generation_progress with the streamed text so far, is sent to clients
+ * as a 'status-update' socket event. A client that connects later gets the latest update straight away,
+ * and /api/status returns it too.
  * @param options - UI server options
  * @returns Promise with server control handlers
  */
@@ -18,6 +21,8 @@ export async function startUiServer(options: UiServerOptions): Promise<UiServer>
   const server = http.createServer(app);
   const io = new SocketIOServer(server);
 
+  let lastUpdate: StatusUpdate | null = null;
+
   // Serve static frontend files if they exist
   const staticPath = path.join(process.cwd(), 'client', 'build');
   app.use(express.static(staticPath));
@@ -27,12 +32,16 @@ export async function startUiServer(options: UiServerOptions): Promise<UiServer>
     res.json({
       status: 'running',
       projectPath,
+      lastUpdate,
     });
   });
 
   // Socket.io event handlers
   io.on('connection', (socket) => {
     console.log('Client connected to UI');
+    if (lastUpdate) {
+      socket.emit('status-update', lastUpdate);
+    }
 
     socket.on('disconnect', () => {
       console.log('Client disconnected from UI');
@@ -49,6 +58,7 @@ export async function startUiServer(options: UiServerOptions): Promise<UiServer>
 
   // Update broadcast method
   const broadcastUpdate = (update: StatusUpdate): void => {
+    lastUpdate = update;
     io.emit('status-update', update);
   };
 
@@ -63,6 +73,6 @@ export async function startUiServer(options: UiServerOptions): Promise<UiServer>
       });
     },
     // Pass this to the orchestrator's onUpdate
-    // broadcastUpdate,
+    broadcastUpdate,
   };
 }
\ No newline at end of file
@@ -0,0 +1,81 @@
+// src/utils/apply-edits.test.ts
+import { describe, it, expect } from 'vitest';
+import { parseSearchReplaceBlocks, applySearchReplaceEdits } from './apply-edits.js';
+
+const ORIGINAL = `export function add(a: number, b: number): number {
+  return a - b;
+}
+
+export function subtract(a: number, b: number): number {
+  return a - b;
+}
+`;
+
+describe('parseSearchReplaceBlocks', () => {
+  it('reads every block in order', () => {
+    const edits = parseSearchReplaceBlocks(`Fixing add.
+
+<<<<<<< SEARCH
+old one
+=======
+new one
+>>>>>>> REPLACE
+
+<<<<<<< SEARCH
+=======
+appended
+>>>>>>> REPLACE`);
+
+    expect(edits).toEqual([
+      { search: 'old one', replace: 'new one' },
+      { search: '', replace: 'appended' },
+    ]);
+  });
+});
+
+describe('applySearchReplaceEdits', () => {
+  it('replaces a unique match', () => {
+    const result = applySearchReplaceEdits(ORIGINAL, [{
+      search: 'export function add(a: number, b: number): number {\n  return a - b;',
+      replace: 'export function add(a: number, b: number): number {\n  return a + b;',
+    }]);
+
+    expect(result).toMatchObject({ success: true, applied: 1, failures: [] });
+    expect(result.content).toContain('return a + b;');
+    expect(result.content.match(/return a - b;/g)).toHaveLength(1);
+  });
+
+  it('matches lines whose indentation is off', () => {
+    const result = applySearchReplaceEdits(ORIGINAL, [{
+      search: 'export function add(a: number, b: number): number {\nreturn a - b;  ',
+      replace: 'export function add(a: number, b: number): number {\n  return a + b;',
+    }]);
+
+    expect(result.success).toBe(true);
+    expect(result.content).toContain('return a + b;');
+  });
+
+  it('appends for an empty search block', () => {
+    const result = applySearchReplaceEdits('const a = 1;', [{ search: '', replace: 'const b = 2;' }]);
+
+    expect(result.content).toBe('const a = 1;\nconst b = 2;');
+  });
+
+  it('leaves the content unchanged when any edit is ambiguous or missing', () => {
+    const result = applySearchReplaceEdits(ORIGINAL, [
+      { search: 'export function add', replace: 'export function plus' },
+      { search: 'return a - b;', replace: 'return a + b;' },
+      { search: 'export function multiply', replace: '' },
+    ]);
+
+    expect(result).toEqual({
+      success: false,
+      content: ORIGINAL,
+      applied: 0,
+      failures: [
+        { index: 1, search: 'return a - b;', reason: 'search text matches 2 locations' },
+        { index: 2, search: 'export function multiply', reason: 'search text not found' },
+      ],
+    });
+  });
+});
@@ -0,0 +1,147 @@
+// src/utils/apply-edits.ts
+import { logger } from './logger.js';
+
+export interface SearchReplaceEdit {
+  search: string;
+  replace: string;
+}
+
+export interface EditFailure {
+  index: number;
+  search: string;
+  reason: string;
+}
+
+export interface EditApplicationResult {
+  success: boolean;
+  content: string;
+  applied: number;
+  failures: EditFailure[];
+}
+
+const BLOCK_REGEX = /<{5,9} SEARCH[^\n]*\n([\s\S]*?)\n?={5,9}\n([\s\S]*?)\n?>{5,9} REPLACE/g;
+
+/**
+ * Parses search/replace blocks from a model response:
+ *
+ *     <<<<<<< SEARCH
+ *     original lines
+ *     =======
+ *     replacement lines
+ *     >>>>>>> REPLACE
+ *
+ * @param text - Model response
+ * @returns The edits in the order they appear
+ */
+export function parseSearchReplaceBlocks(text: string): SearchReplaceEdit[] {
+  const edits: SearchReplaceEdit[] = [];
+
+  for (const match of text.matchAll(BLOCK_REGEX)) {
+    edits.push({
+      search: match[1],
+      replace: match[2],
+    });
+  }
+
+  logger.debug(`Parsed ${edits.length} search/replace blocks`);
+  return edits;
+}
+
+/**
+ * Applies search/replace edits to a file's content. Edits are applied in order and
+ * all-or-nothing: if any edit fails, the original content is returned unchanged.
+ * @param original - Current file content
+ * @param edits - Edits to apply
+ * @returns The edited content and a record of any edits that failed
+ */
+export function applySearchReplaceEdits(original: string, edits: SearchReplaceEdit[]): EditApplicationResult {
+  let content = original;
+  const failures: EditFailure[] = [];
+
+  edits.forEach((edit, index) => {
+    // An empty search block means "append"
+    if (edit.search.trim() === '') {
+      content = content.length > 0 && !content.endsWith('\n')
+        ? `${content}\n${edit.replace}`
+        : `${content}${edit.replace}`;
+      return;
+    }
+
+    const exact = findUnique(content, edit.search);
+    if (exact.count === 1) {
+      content = content.slice(0, exact.index) + edit.replace + content.slice(exact.index + edit.search.length);
+      return;
+    }
+
+    if (exact.count > 1) {
+      failures.push({ index, search: edit.search, reason: `search text matches ${exact.count} locations` });
+      return;
+    }
+
+    // Models often get trailing whitespace or indentation slightly wrong, so retry line by line
+    const loose = findLinesLoosely(content, edit.search);
+    if (loose.count === 1) {
+      const lines = content.split('\n');
+      lines.splice(loose.line, loose.length, ...edit.replace.split('\n'));
+      content = lines.join('\n');
+      return;
+    }
+
+    failures.push({
+      index,
+      search: edit.search,
+      reason: loose.count > 1 ? `search text matches ${loose.count} locations` : 'search text not found',
+    });
+  });
+
+  if (failures.length > 0) {
+    failures.forEach(failure => {
+      logger.debug(`Edit ${failure.index + 1} failed: ${failure.reason}`);
+    });
+
+    return { success: false, content: original, applied: 0, failures };
+  }
+
+  return { success: true, content, applied: edits.length, failures };
+}
+
+function findUnique(content: string, search: string): { count: number; index: number } {
+  let count = 0;
+  let first = -1;
+  let from = 0;
+
+  while (true) {
+    const index = content.indexOf(search, from);
+    if (index === -1) break;
+    if (first === -1) first = index;
+    count++;
+    from = index + 1;
+  }
+
+  return { count, index: first };
+}
+
+function findLinesLoosely(content: string, search: string): { count: number; line: number; length: number } {
+  const contentLines = content.split('\n').map(line => line.trim());
+  const searchLines = search.split('\n').map(line => line.trim());
+
+  // Ignore blank lines at the edges of the search block
+  while (searchLines.length > 0 && searchLines[0] === '') searchLines.shift();
+  while (searchLines.length > 0 && searchLines[searchLines.length - 1] === '') searchLines.pop();
+
+  if (searchLines.length === 0) {
+    return { count: 0, line: -1, length: 0 };
+  }
+
+  let count = 0;
+  let first = -1;
+
+  for (let i = 0; i + searchLines.length <= contentLines.length; i++) {
+    if (searchLines.every((line, offset) => contentLines[i + offset] === line)) {
+      if (first === -1) first = i;
+      count++;
+    }
+  }
+
+  return { count, line: first, length: searchLines.length };
+}
@@ -0,0 +1,54 @@
+// src/utils/config.test.ts
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { loadConfig } from './config.js';
+
+describe('loadConfig', () => {
+  let projectPath: string;
+
+  beforeEach(async () => {
+    // Config files are searched for from the working directory
+    projectPath = await fs.mkdtemp(path.join(os.tmpdir(), 'tdd-ai-config-'));
+    vi.spyOn(process, 'cwd').mockReturnValue(projectPath);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+    await fs.rm(projectPath, { recursive: true, force: true });
+  });
+
+  async function writeConfig(ai: Record<string, unknown>): Promise<void> {
+    await fs.writeFile(path.join(projectPath, '.tddairc.json'), JSON.stringify({ ai }));
+  }
+
+  it('uses the default model of a provider set in the config file', async () => {
+    await writeConfig({ provider: 'local' });
+
+    const config = await loadConfig();
+
+    expect(config.ai).toMatchObject({ provider: 'local', model: 'llama3' });
+  });
+
+  it('uses the default model of a provider set in the environment', async () => {
+    vi.stubEnv('TDDAI_AI_PROVIDER', 'anthropic');
+
+    const config = await loadConfig();
+
+    expect(config.ai).toMatchObject({ provider: 'anthropic', model: 'claude-3-5-sonnet-latest' });
+  });
+
+  it('keeps a model that was set explicitly', async () => {
+    await writeConfig({ provider: 'local', model: 'qwen2.5-coder' });
+    expect((await loadConfig()).ai.model).toBe('qwen2.5-coder');
+
+    vi.stubEnv('TDDAI_AI_MODEL', 'codellama');
+    expect((await loadConfig()).ai.model).toBe('codellama');
+  });
+
+  it('keeps the default model for the default provider', async () => {
+    expect((await loadConfig()).ai).toMatchObject({ provider: 'openai', model: 'gpt-4-turbo' });
+  });
+});
@@ -2,7 +2,8 @@
 import fs from 'fs';
 import path from 'path';
 import { cosmiconfig } from 'cosmiconfig';
-import { logger } from './logger.js';
+import { logger, isLogLevel, LogLevel } from './logger.js';
+import { TestRunnerSettings } from '../types.js';
 
 /**
  * Configuration interface for TDD-AI-Coder
@@ -10,21 +11,73 @@ import { logger } from './logger.js';
 export interface TddAiConfig {
   // AI Settings
   ai: {
-    provider: 'openai' | 'anthropic' | 'local';
+    // Built-in providers are 'openai', 'anthropic' and 'local'; others can be registered via providerModules
+    provider: string;
+    providerModules?: string[];
     model: string;
     temperature: number;
     maxTokens?: number;
+    // Overrides the built-in context window size for the model, in tokens
+    contextWindow?: number;
     apiKey?: string;
     apiEndpoint?: string;
+    localApiStyle?: 'openai' | 'ollama';
+    // 'edits' asks the model for search/replace blocks against the current implementation
+    outputFormat?: 'full' | 'edits';
+    // Let the AI create or change several files in one generation
+    multiFile?: boolean;
+    // Stream generation output and report progress while it arrives
+    stream?: boolean;
+    // Implementations to generate per attempt; each is tested and the best one is kept
+    candidates?: number;
+    // Models to move through as attempts fail, cheapest first; replaces model for code generation
+    modelLadder?: {
+      models: string[];
+      // Attempts with a model before moving to the next one
+      attemptsPerModel?: number;
+      // Move on early after this many attempts without more passing tests (0 disables)
+      stuckAfter?: number;
+    };
+    // Per-request timeout in milliseconds
     timeout: number;
+    // Retries for rate limits, server errors and timeouts, with exponential backoff
+    retry?: {
+      maxRetries?: number;
+      initialDelayMs?: number;
+      maxDelayMs?: number;
+    };
+    // Record responses to, or replay them from, cassette files
+    cassette?: {
+      mode: 'record' | 'replay';
+      dir: string;
+    };
+    // Responses for the 'scripted' provider; implementations are returned in order
+    script?: {
+      implementations?: string[];
+      files?: string[];
+      validation?: {
+        issues: Array<{
+          severity: 'warning' | 'error';
+          message: string;
+          location?: string;
+          suggestion?: string;
+        }>;
+        overallAssessment: string;
+      };
+      // Tool calls returned to agent mode, one per step, in order
+      agentActions?: Array<{
+        thought?: string;
+        tool: string;
+        args?: Record<string, unknown>;
+      }>;
+      onExhausted?: 'repeat' | 'error';
+    };
   };
 
-  // Test Runner Settings
-  testRunner: {
-    command: string;
-    args: string[];
-    jsonReporter: boolean;
-    timeout: number;
+  // Test Runner Settings; see TestRunnerSettings for how the runner is invoked
+  testRunner: TestRunnerSettings & {
+    // 'vitest', 'jest', 'node-test' or 'auto' to detect the runner from the project's package.json
+    adapter?: string;
   };
 
   // Validation Settings
@@ -42,9 +95,59 @@ export interface TddAiConfig {
     waitBetweenAttempts: number;
   };
 
+  // Prompt template files, resolved relative to the config file; see src/utils/prompt-templates.ts for variables
+  prompts?: {
+    system?: string;
+    generation?: string;
+    validationSystem?: string;
+    validation?: string;
+    // Free-form project conventions, available to templates as {{projectConventions}}
+    conventions?: string;
+  };
+
+  // Agent mode: the model reads files, runs tests and proposes edits through tools
+  agent?: {
+    enabled?: boolean;
+    // Tool calls allowed per attempt
+    maxSteps?: number;
+  };
+
+  // Declarations from files imported by the test and implementation, added to the prompt
+  context?: {
+    enabled?: boolean;
+    maxTokens?: number;
+    // How many levels of imports to follow
+    depth?: number;
+  };
+
+  // On-disk cache of AI responses, so identical prompts aren't paid for twice
+  cache?: {
+    enabled?: boolean;
+    dir?: string;
+    // How long cached responses are reused
+    ttlHours?: number;
+  };
+
+  // Coverage check of the implementation once all tests pass
+  coverage?: {
+    enabled?: boolean;
+    // Ask the model to remove code no test runs, keeping the change only if the tests still pass
+    removeDeadCode?: boolean;
+    // Where the JSON report is written, relative to the project
+    reportPath?: string;
+  };
+
+  // Session Budget Settings; the loop stops once either limit is reached
+  budget?: {
+    maxTokens?: number;
+    maxCostUsd?: number;
+    // Per-model prices in USD per million tokens, overriding the built-in table
+    pricing?: Record<string, { input: number; output: number }>;
+  };
+
   // Logging Settings
   logging: {
-    level: 'debug' | 'info' | 'warn' | 'error';
+    level: LogLevel;
     timestamps: boolean;
     colors: boolean;
     saveHistory: boolean;
@@ -52,6 +155,16 @@ export interface TddAiConfig {
   };
 }
 
+/**
+ * Default model used for each provider when none is specified
+ */
+const defaultModels: Record<string, string> = {
+  openai: 'gpt-4-turbo',
+  anthropic: 'claude-3-5-sonnet-latest',
+  local: 'llama3',
+  scripted: 'scripted',
+};
+
 /**
  * Default configuration
  */
@@ -61,11 +174,11 @@ const defaultConfig: TddAiConfig = {
     model: 'gpt-4-turbo',
     temperature: 0.2,
     apiKey: process.env.OPENAI_API_KEY,
+    stream: true,
     timeout: 60000, // 1 minute
   },
   testRunner: {
-    command: 'npx',
-    args: ['vitest', 'run', '--reporter', 'json'],
+    adapter: 'auto',
     jsonReporter: true,
     timeout: 30000, // 30 seconds
   },
@@ -100,8 +213,10 @@ const defaultConfig: TddAiConfig = {
  * @returns Merged configuration
  */
 export async function loadConfig(cliOptions: Record<string, any> = {}): Promise<TddAiConfig> {
-  // Start with default config
-  let config = { ...defaultConfig };
+  // Start with a copy of the default config, so loading again starts from the defaults too
+  let config = structuredClone(defaultConfig);
+  // Whether any source names a model, rather than leaving the default in place
+  let modelSet = cliOptions.aiModel !== undefined || Boolean(process.env.TDDAI_AI_MODEL);
 
   try {
     // Try to load config file using cosmiconfig
@@ -113,6 +228,15 @@ export async function loadConfig(cliOptions: Record<string, any> = {}): Promise<
 
       // Merge the file config with defaults
       config = mergeConfigs(config, result.config);
+      modelSet ||= result.config.ai?.model !== undefined;
+
+      // Template paths are relative to the config file
+      if (config.prompts) {
+        const configDir = path.dirname(result.filepath);
+        config.prompts = Object.fromEntries(
+          Object.entries(config.prompts).map(([name, file]) => [name, file ? path.resolve(configDir, file) : file])
+        );
+      }
     } else {
       logger.debug('No config file found, using defaults');
     }
@@ -127,6 +251,11 @@ export async function loadConfig(cliOptions: Record<string, any> = {}): Promise<
   // Apply CLI options (highest precedence)
   config = applyCLIOptions(config, cliOptions);
 
+  // The default model belongs to the default provider; another provider gets its own default
+  if (!modelSet && config.ai.provider !== defaultConfig.ai.provider && defaultModels[config.ai.provider]) {
+    config.ai.model = defaultModels[config.ai.provider];
+  }
+
   // Validate the final config
   validateConfig(config);
 
@@ -150,15 +279,28 @@ function applyEnvironmentVariables(config: TddAiConfig): TddAiConfig {
   if (process.env.TDDAI_AI_TEMPERATURE) {
     newConfig.ai.temperature = parseFloat(process.env.TDDAI_AI_TEMPERATURE);
   }
-  if (process.env.OPENAI_API_KEY) {
-    newConfig.ai.apiKey = process.env.OPENAI_API_KEY;
-  }
-  if (process.env.ANTHROPIC_API_KEY) {
-    newConfig.ai.apiKey = process.env.ANTHROPIC_API_KEY;
+  const envApiKey = getProviderApiKey(newConfig.ai.provider);
+  if (envApiKey) {
+    newConfig.ai.apiKey = envApiKey;
   }
   if (process.env.TDDAI_AI_API_ENDPOINT) {
     newConfig.ai.apiEndpoint = process.env.TDDAI_AI_API_ENDPOINT;
   }
+  const outputFormat = process.env.TDDAI_AI_OUTPUT_FORMAT;
+  if (outputFormat === 'full' || outputFormat === 'edits') {
+    newConfig.ai.outputFormat = outputFormat;
+  } else if (outputFormat) {
+    logger.warn(`Invalid TDDAI_AI_OUTPUT_FORMAT: ${outputFormat}. Expected full or edits.`);
+  }
+  const localApiStyle = process.env.TDDAI_AI_LOCAL_API_STYLE;
+  if (localApiStyle === 'openai' || localApiStyle === 'ollama') {
+    newConfig.ai.localApiStyle = localApiStyle;
+  } else if (localApiStyle) {
+    logger.warn(`Invalid TDDAI_AI_LOCAL_API_STYLE: ${localApiStyle}. Expected openai or ollama.`);
+  }
+  if (process.env.TDDAI_AI_MAX_RETRIES) {
+    newConfig.ai.retry = { ...newConfig.ai.retry, maxRetries: parseInt(process.env.TDDAI_AI_MAX_RETRIES, 10) };
+  }
 
   // Validation settings
   if (process.env.TDDAI_VALIDATION_ENABLED) {
@@ -170,9 +312,17 @@ function applyEnvironmentVariables(config: TddAiConfig): TddAiConfig {
     newConfig.project.maxAttempts = parseInt(process.env.TDDAI_MAX_ATTEMPTS, 10);
   }
 
+  // Budget settings
+  if (process.env.TDDAI_BUDGET_MAX_TOKENS) {
+    newConfig.budget = { ...newConfig.budget, maxTokens: parseInt(process.env.TDDAI_BUDGET_MAX_TOKENS, 10) };
+  }
+  if (process.env.TDDAI_BUDGET_MAX_COST) {
+    newConfig.budget = { ...newConfig.budget, maxCostUsd: parseFloat(process.env.TDDAI_BUDGET_MAX_COST) };
+  }
+
   // Logging settings
-  if (process.env.TDDAI_LOG_LEVEL) {
-    newConfig.logging.level = process.env.TDDAI_LOG_LEVEL as any;
+  if (isLogLevel(process.env.TDDAI_LOG_LEVEL)) {
+    newConfig.logging.level = process.env.TDDAI_LOG_LEVEL;
   }
 
   return newConfig;
@@ -191,8 +341,8 @@ function applyCLIOptions(config: TddAiConfig, cliOptions: Record<string, any>):
   if (cliOptions.verbose) {
     newConfig.logging.level = 'debug';
   }
-  if (cliOptions.logLevel) {
-    newConfig.logging.level = cliOptions.logLevel as any;
+  if (isLogLevel(cliOptions.logLevel)) {
+    newConfig.logging.level = cliOptions.logLevel;
   }
   if (cliOptions.skipValidation !== undefined) {
     newConfig.validation.enabled = !cliOptions.skipValidation;
@@ -203,16 +353,93 @@ function applyCLIOptions(config: TddAiConfig, cliOptions: Record<string, any>):
   if (cliOptions.testPattern !== undefined) {
     newConfig.project.testFilePattern = cliOptions.testPattern;
   }
+  if (cliOptions.aiProvider !== undefined && cliOptions.aiProvider !== newConfig.ai.provider) {
+    newConfig.ai.provider = cliOptions.aiProvider;
+    newConfig.ai.apiKey = getProviderApiKey(newConfig.ai.provider);
+    // Don't carry over a model name that belongs to a different provider
+    newConfig.ai.model = defaultModels[newConfig.ai.provider] || newConfig.ai.model;
+  }
   if (cliOptions.aiModel !== undefined) {
     newConfig.ai.model = cliOptions.aiModel;
   }
   if (cliOptions.aiTemperature !== undefined) {
     newConfig.ai.temperature = parseFloat(cliOptions.aiTemperature);
   }
+  if (cliOptions.outputFormat !== undefined) {
+    newConfig.ai.outputFormat = cliOptions.outputFormat;
+  }
+  if (cliOptions.stream === false) {
+    newConfig.ai.stream = false;
+  }
+  if (cliOptions.multiFile !== undefined) {
+    newConfig.ai.multiFile = cliOptions.multiFile;
+  }
+  if (cliOptions.record !== undefined) {
+    newConfig.ai.cassette = { mode: 'record', dir: path.resolve(cliOptions.record) };
+  }
+  if (cliOptions.replay !== undefined) {
+    newConfig.ai.cassette = { mode: 'replay', dir: path.resolve(cliOptions.replay) };
+  }
+  if (cliOptions.modelLadder !== undefined) {
+    newConfig.ai.modelLadder = {
+      ...newConfig.ai.modelLadder,
+      models: String(cliOptions.modelLadder).split(',').map(model => model.trim()).filter(Boolean),
+    };
+  }
+  if (cliOptions.candidates !== undefined) {
+    newConfig.ai.candidates = parseInt(cliOptions.candidates, 10);
+  }
+  if (cliOptions.agent !== undefined) {
+    newConfig.agent = { ...newConfig.agent, enabled: cliOptions.agent };
+  }
+  if (cliOptions.agentSteps !== undefined) {
+    newConfig.agent = { ...newConfig.agent, maxSteps: parseInt(cliOptions.agentSteps, 10) };
+  }
+  if (cliOptions.context === false) {
+    newConfig.context = { ...newConfig.context, enabled: false };
+  }
+  if (cliOptions.cache === false) {
+    newConfig.cache = { ...newConfig.cache, enabled: false };
+  }
+  if (cliOptions.coverage) {
+    newConfig.coverage = { ...newConfig.coverage, enabled: true };
+  }
+  if (cliOptions.removeDeadCode) {
+    newConfig.coverage = { ...newConfig.coverage, enabled: true, removeDeadCode: true };
+  }
+  if (cliOptions.testRunner !== undefined) {
+    newConfig.testRunner = { ...newConfig.testRunner, adapter: cliOptions.testRunner };
+  }
+  if (cliOptions.persistentRunner) {
+    newConfig.testRunner = { ...newConfig.testRunner, persistent: true };
+  }
+  if (cliOptions.maxRetries !== undefined) {
+    newConfig.ai.retry = { ...newConfig.ai.retry, maxRetries: parseInt(cliOptions.maxRetries, 10) };
+  }
+  if (cliOptions.maxTokens !== undefined) {
+    newConfig.budget = { ...newConfig.budget, maxTokens: parseInt(cliOptions.maxTokens, 10) };
+  }
+  if (cliOptions.maxCost !== undefined) {
+    newConfig.budget = { ...newConfig.budget, maxCostUsd: parseFloat(cliOptions.maxCost) };
+  }
 
   return newConfig;
 }
 
+/**
+ * Get the API key for a provider from its environment variable
+ */
+function getProviderApiKey(provider: string): string | undefined {
+  switch (provider) {
+    case 'openai':
+      return process.env.OPENAI_API_KEY;
+    case 'anthropic':
+      return process.env.ANTHROPIC_API_KEY;
+    default:
+      return undefined;
+  }
+}
+
 /**
  * Deep merge configs
  */
@@ -243,21 +470,90 @@ function mergeConfigs(baseConfig: TddAiConfig, overrideConfig: Partial<TddAiConf
  * Validate the config for required fields and valid values
  */
 function validateConfig(config: TddAiConfig): void {
+  if (config.ai.cassette?.mode === 'replay') {
+    logger.info(`Replay mode: AI responses will be served from ${config.ai.cassette.dir}`);
+  }
+
   // Check for required AI provider settings
-  if (config.ai.provider === 'openai' && !config.ai.apiKey) {
+  if (config.ai.cassette?.mode !== 'replay' && config.ai.provider === 'openai' && !config.ai.apiKey) {
     logger.warn('No OpenAI API key provided. Set OPENAI_API_KEY environment variable.');
   }
 
-  if (config.ai.provider === 'anthropic' && !config.ai.apiKey) {
+  if (config.ai.cassette?.mode !== 'replay' && config.ai.provider === 'anthropic' && !config.ai.apiKey) {
     logger.warn('No Anthropic API key provided. Set ANTHROPIC_API_KEY environment variable.');
   }
 
+  if (config.ai.provider === 'local' && !config.ai.apiEndpoint) {
+    logger.info('No local LLM endpoint configured. Using the default Ollama address (http://localhost:11434).');
+  }
+
+  if (config.ai.provider === 'anthropic' && config.ai.model.startsWith('gpt-')) {
+    logger.warn(`Model ${config.ai.model} is not an Anthropic model. Using default: ${defaultModels.anthropic}`);
+    config.ai.model = defaultModels.anthropic;
+  }
+
   // Validate temperature range
   if (config.ai.temperature < 0 || config.ai.temperature > 1) {
     logger.warn(`Invalid AI temperature value: ${config.ai.temperature}. Using default: 0.2`);
     config.ai.temperature = 0.2;
   }
 
+  // Validate model ladder
+  if (config.ai.modelLadder && (!Array.isArray(config.ai.modelLadder.models) || config.ai.modelLadder.models.length === 0)) {
+    logger.warn(`Model ladder has no models. Using ${config.ai.model} for every attempt.`);
+    delete config.ai.modelLadder;
+  }
+
+  // Agent mode proposes its own edits, so candidates don't apply
+  if (config.agent?.enabled && (config.ai.candidates || 1) > 1) {
+    logger.warn('Candidates are not supported in agent mode. Generating one candidate per attempt.');
+    config.ai.candidates = 1;
+  }
+
+  // Validate candidate count
+  if (config.ai.candidates !== undefined && !(config.ai.candidates >= 1)) {
+    logger.warn(`Invalid candidate count: ${config.ai.candidates}. Using default: 1`);
+    config.ai.candidates = 1;
+  }
+
+  // Validate retry settings
+  if (config.ai.retry?.maxRetries !== undefined && !(config.ai.retry.maxRetries >= 0)) {
+    logger.warn(`Invalid max retries value: ${config.ai.retry.maxRetries}. Using default: 3`);
+    delete config.ai.retry.maxRetries;
+  }
+
+  // Validate cache settings
+  if (config.cache?.ttlHours !== undefined && !(config.cache.ttlHours >= 0)) {
+    logger.warn(`Invalid cache TTL: ${config.cache.ttlHours}. Using default: 24 hours`);
+    delete config.cache.ttlHours;
+  }
+
+  // Validate budget limits
+  if (config.budget?.maxTokens !== undefined && !(config.budget.maxTokens > 0)) {
+    logger.warn(`Invalid token budget: ${config.budget.maxTokens}. Ignoring it.`);
+    delete config.budget.maxTokens;
+  }
+  if (config.budget?.maxCostUsd !== undefined && !(config.budget.maxCostUsd > 0)) {
+    logger.warn(`Invalid cost budget: ${config.budget.maxCostUsd}. Ignoring it.`);
+    delete config.budget.maxCostUsd;
+  }
+
+  // Validate test runner settings
+  if (config.testRunner.timeout !== undefined && !(config.testRunner.timeout > 0)) {
+    logger.warn(`Invalid test runner timeout: ${config.testRunner.timeout}. Using default: 30000`);
+    config.testRunner.timeout = 30000;
+  }
+  for (const key of ['testTimeout', 'memoryLimitMb'] as const) {
+    if (config.testRunner[key] !== undefined && !(config.testRunner[key]! > 0)) {
+      logger.warn(`Invalid test runner ${key}: ${config.testRunner[key]}. Leaving it unset.`);
+      delete config.testRunner[key];
+    }
+  }
+  if (config.testRunner.args !== undefined && !Array.isArray(config.testRunner.args)) {
+    logger.warn('Test runner args must be an array. Using the runner\'s default arguments.');
+    delete config.testRunner.args;
+  }
+
   // Validate max attempts
   if (config.project.maxAttempts < 1) {
     logger.warn(`Invalid max attempts value: ${config.project.maxAttempts}. Using default: 10`);
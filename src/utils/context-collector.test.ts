@@ -0,0 +1,60 @@
+// src/utils/context-collector.test.ts
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { collectDependencyContext } from './context-collector.js';
+
+const countTokens = (text: string): number => Math.ceil(text.length / 4);
+
+describe('collectDependencyContext', () => {
+  let projectPath: string;
+  let entryFiles: string[];
+
+  beforeAll(async () => {
+    projectPath = await fs.mkdtemp(path.join(os.tmpdir(), 'tdd-ai-context-'));
+    await fs.mkdir(path.join(projectPath, 'lib'));
+    await fs.writeFile(path.join(projectPath, 'shapes.test.ts'), "import { area } from './shapes';\n");
+    await fs.writeFile(path.join(projectPath, 'shapes.ts'), "import { Square } from './lib/geometry';\nexport function area(shape: Square) {}\n");
+    await fs.writeFile(path.join(projectPath, 'lib/geometry.ts'), [
+      "import { Unit } from './units';",
+      'export interface Point { x: number; y: number }',
+      'export interface Square { corner: Point; side: number; unit: Unit }',
+      'export interface Circle { radius: number }',
+      'export function distance(a: Point, b: Point): number {',
+      '  return Math.hypot(a.x - b.x, a.y - b.y);',
+      '}',
+    ].join('\n'));
+    await fs.writeFile(path.join(projectPath, 'lib/units.ts'), "export type Unit = 'cm' | 'in';\n");
+    entryFiles = [path.join(projectPath, 'shapes.test.ts'), path.join(projectPath, 'shapes.ts')];
+  });
+
+  afterAll(async () => {
+    await fs.rm(projectPath, { recursive: true, force: true });
+  });
+
+  it('collects the declarations the entry files import, following imports within the depth', async () => {
+    const context = await collectDependencyContext({ projectPath, entryFiles, countTokens });
+
+    expect(context).toBe([
+      '',
+      `### ${path.join('lib', 'geometry.ts')}`,
+      '```typescript',
+      'export interface Point { x: number; y: number }',
+      '',
+      'export interface Square { corner: Point; side: number; unit: Unit }',
+      '```',
+      '',
+      `### ${path.join('lib', 'units.ts')}`,
+      '```typescript',
+      "export type Unit = 'cm' | 'in';",
+      '```',
+      '',
+    ].join('\n'));
+  });
+
+  it('leaves out files past the depth or over the token budget', async () => {
+    expect(await collectDependencyContext({ projectPath, entryFiles, countTokens, depth: 1 })).not.toContain('units.ts');
+    expect(await collectDependencyContext({ projectPath, entryFiles, countTokens, maxTokens: 5 })).toBe('');
+  });
+});
@@ -0,0 +1,289 @@
+// src/utils/context-collector.ts
+import fs from 'fs';
+import path from 'path';
+import { createRequire } from 'module';
+import type * as TypeScript from 'typescript';
+import { logger } from './logger.js';
+
+// The compiler API itself; an ESM import of TypeScript also carries it as its default export
+type TypeScriptModule = typeof TypeScript.default;
+
+const DEFAULT_MAX_TOKENS = 2000;
+const DEFAULT_DEPTH = 2;
+
+export interface ContextOptions {
+  projectPath: string;
+  // Files whose imports are followed; their own content is already in the prompt
+  entryFiles: string[];
+  countTokens: (text: string) => number;
+  maxTokens?: number;
+  // How many levels of imports to follow
+  depth?: number;
+}
+
+interface Dependency {
+  file: string;
+  distance: number;
+  // Imported names, or null when everything the module exports is relevant
+  names: Set<string> | null;
+}
+
+/**
+ * Follows the imports of the entry files inside the project and collects the exported
+ * type declarations and function signatures they depend on, within a token budget.
+ * Module resolution honors the project's tsconfig, including path mappings.
+ * @returns Markdown with one section per file, or an empty string if nothing was found
+ */
+export async function collectDependencyContext(options: ContextOptions): Promise<string> {
+  const { projectPath, entryFiles, countTokens, maxTokens = DEFAULT_MAX_TOKENS, depth = DEFAULT_DEPTH } = options;
+
+  const ts = await loadTypeScript(projectPath);
+  if (!ts) {
+    logger.debug('TypeScript is not available, skipping dependency context');
+    return '';
+  }
+
+  const compilerOptions = readCompilerOptions(ts, projectPath);
+  const dependencies = findDependencies(ts, compilerOptions, projectPath, entryFiles, depth);
+
+  let context = '';
+  let usedTokens = 0;
+  let skipped = 0;
+
+  for (const dependency of dependencies) {
+    const declarations = extractDeclarations(ts, dependency.file, dependency.names);
+    if (!declarations) continue;
+
+    const section = `\n### ${path.relative(projectPath, dependency.file)}\n\`\`\`typescript\n${declarations}\n\`\`\`\n`;
+    const tokens = countTokens(section);
+
+    if (usedTokens + tokens > maxTokens) {
+      skipped++;
+      continue;
+    }
+
+    context += section;
+    usedTokens += tokens;
+  }
+
+  logger.debug(`Dependency context: ${dependencies.length - skipped} of ${dependencies.length} files included (~${usedTokens} tokens)`);
+  return context;
+}
+
+/**
+ * Loads TypeScript from the project under test, falling back to our own copy
+ */
+async function loadTypeScript(projectPath: string): Promise<TypeScriptModule | null> {
+  try {
+    return createRequire(path.join(projectPath, 'package.json'))('typescript');
+  } catch {
+    // Not installed in the project
+  }
+
+  try {
+    const loaded: typeof TypeScript = await import('typescript');
+    return loaded.default || loaded;
+  } catch {
+    return null;
+  }
+}
+
+function readCompilerOptions(ts: TypeScriptModule, projectPath: string): TypeScript.CompilerOptions {
+  const defaults: TypeScript.CompilerOptions = {
+    allowJs: true,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+    module: ts.ModuleKind.ESNext,
+  };
+
+  const configPath = ts.findConfigFile(projectPath, ts.sys.fileExists);
+  if (!configPath) {
+    return defaults;
+  }
+
+  const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+  if (error) {
+    logger.debug(`Could not read ${configPath}: ${ts.flattenDiagnosticMessageText(error.messageText, '\n')}`);
+    return defaults;
+  }
+
+  const parsed = ts.parseJsonConfigFileContent(config, ts.sys, path.dirname(configPath));
+  return { ...defaults, ...parsed.options };
+}
+
+/**
+ * Breadth-first walk over the project files imported by the entry files
+ */
+function findDependencies(
+  ts: TypeScriptModule,
+  compilerOptions: TypeScript.CompilerOptions,
+  projectPath: string,
+  entryFiles: string[],
+  maxDepth: number
+): Dependency[] {
+  const entries = new Set(entryFiles.map(file => path.resolve(file)));
+  const found = new Map<string, Dependency>();
+  let frontier = Array.from(entries).filter(file => fs.existsSync(file));
+
+  for (let distance = 1; distance <= maxDepth && frontier.length > 0; distance++) {
+    const next: string[] = [];
+
+    for (const file of frontier) {
+      for (const { specifier, names } of readImports(ts, file)) {
+        const resolved = ts.resolveModuleName(specifier, file, compilerOptions, ts.sys).resolvedModule;
+        if (!resolved || resolved.isExternalLibraryImport) continue;
+
+        const target = path.resolve(resolved.resolvedFileName);
+        const relative = path.relative(projectPath, target);
+        if (relative.startsWith('..') || path.isAbsolute(relative) || relative.split(path.sep).includes('node_modules')) continue;
+        if (entries.has(target)) continue;
+
+        const existing = found.get(target);
+        if (existing) {
+          // Merge the names wanted by every importer
+          if (existing.names && names) {
+            names.forEach(name => existing.names!.add(name));
+          } else {
+            existing.names = null;
+          }
+          continue;
+        }
+
+        found.set(target, { file: target, distance, names: names ? new Set(names) : null });
+        next.push(target);
+      }
+    }
+
+    frontier = next;
+  }
+
+  return Array.from(found.values()).sort((a, b) => a.distance - b.distance);
+}
+
+/**
+ * Lists the module specifiers a file imports or re-exports, with the names it uses
+ */
+function readImports(ts: TypeScriptModule, file: string): Array<{ specifier: string; names: string[] | null }> {
+  const sourceFile = parseFile(ts, file);
+  if (!sourceFile) return [];
+
+  const imports: Array<{ specifier: string; names: string[] | null }> = [];
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isImportDeclaration(statement) && ts.isStringLiteral(statement.moduleSpecifier)) {
+      const bindings = statement.importClause?.namedBindings;
+      const names = !statement.importClause?.name && bindings && ts.isNamedImports(bindings)
+        ? bindings.elements.map(element => (element.propertyName || element.name).text)
+        : null;
+      imports.push({ specifier: statement.moduleSpecifier.text, names });
+    } else if (ts.isExportDeclaration(statement) && statement.moduleSpecifier && ts.isStringLiteral(statement.moduleSpecifier)) {
+      imports.push({ specifier: statement.moduleSpecifier.text, names: null });
+    }
+  }
+
+  return imports;
+}
+
+/**
+ * Renders the exported declarations of a file without function bodies
+ * @param names - Only include these exports and the exports they mention, or all exports if null
+ */
+function extractDeclarations(ts: TypeScriptModule, file: string, names: Set<string> | null): string {
+  const sourceFile = parseFile(ts, file);
+  if (!sourceFile) return '';
+
+  const text = sourceFile.getFullText();
+  const slice = (start: number, end: number): string => text.slice(start, end).trim();
+  const exported: Array<{ name: string; text: string }> = [];
+
+  for (const statement of sourceFile.statements) {
+    const modifiers = ts.canHaveModifiers(statement) ? ts.getModifiers(statement) : undefined;
+    if (!modifiers?.some(modifier => modifier.kind === ts.SyntaxKind.ExportKeyword)) continue;
+
+    if (ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement) || ts.isEnumDeclaration(statement)) {
+      exported.push({ name: statement.name.text, text: slice(statement.getStart(sourceFile), statement.end) });
+    } else if (ts.isFunctionDeclaration(statement) && statement.name) {
+      const end = statement.body ? statement.body.getStart(sourceFile) : statement.end;
+      exported.push({ name: statement.name.text, text: `${slice(statement.getStart(sourceFile), end)};` });
+    } else if (ts.isClassDeclaration(statement) && statement.name) {
+      exported.push({ name: statement.name.text, text: renderClass(ts, statement, sourceFile, slice) });
+    } else if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        if (ts.isIdentifier(declaration.name)) {
+          exported.push({ name: declaration.name.text, text: renderVariable(ts, declaration, sourceFile, slice) });
+        }
+      }
+    }
+  }
+
+  if (!names) {
+    return exported.map(declaration => declaration.text).join('\n\n');
+  }
+
+  // Start from the imported names and pull in the exports their signatures mention
+  const selected = new Set(exported.filter(declaration => names.has(declaration.name)));
+  let added = true;
+  while (added) {
+    added = false;
+    for (const declaration of exported) {
+      if (selected.has(declaration)) continue;
+
+      const mention = new RegExp(`\\b${declaration.name.replace(/\$/g, '\\$')}\\b`);
+      if (Array.from(selected).some(other => mention.test(other.text))) {
+        selected.add(declaration);
+        added = true;
+      }
+    }
+  }
+
+  return exported.filter(declaration => selected.has(declaration)).map(declaration => declaration.text).join('\n\n');
+}
+
+function renderClass(
+  ts: TypeScriptModule,
+  declaration: TypeScript.ClassDeclaration,
+  sourceFile: TypeScript.SourceFile,
+  slice: (start: number, end: number) => string
+): string {
+  const header = slice(declaration.getStart(sourceFile), declaration.members.pos).replace(/\{$/, '').trim();
+  const members = declaration.members
+    .filter(member => !ts.getModifiers(member as TypeScript.HasModifiers)?.some(modifier => modifier.kind === ts.SyntaxKind.PrivateKeyword))
+    .map(member => {
+      const body = 'body' in member ? (member as { body?: TypeScript.Node }).body : undefined;
+      const end = body ? body.getStart(sourceFile) : member.end;
+      const signature = slice(member.getStart(sourceFile), end).replace(/;$/, '');
+      // Property initializers are implementation details
+      return `  ${ts.isPropertyDeclaration(member) ? signature.replace(/\s*=[\s\S]*$/, '') : signature};`;
+    });
+
+  return `${header} {\n${members.join('\n')}\n}`;
+}
+
+function renderVariable(
+  ts: TypeScriptModule,
+  declaration: TypeScript.VariableDeclaration,
+  sourceFile: TypeScript.SourceFile,
+  slice: (start: number, end: number) => string
+): string {
+  const name = (declaration.name as TypeScript.Identifier).text;
+  const initializer = declaration.initializer;
+
+  if (initializer && (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer))) {
+    const end = initializer.body.getStart(sourceFile);
+    return `export const ${name} = ${slice(initializer.getStart(sourceFile), end)} ...;`;
+  }
+
+  if (declaration.type) {
+    return `export const ${name}: ${slice(declaration.type.getStart(sourceFile), declaration.type.end)};`;
+  }
+
+  return `export const ${name}: unknown;`;
+}
+
+function parseFile(ts: TypeScriptModule, file: string): TypeScript.SourceFile | null {
+  try {
+    const content = fs.readFileSync(file, 'utf-8');
+    return ts.createSourceFile(file, content, ts.ScriptTarget.Latest, true);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,97 @@
+// src/utils/file-changes.test.ts
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { parseFileSections, resolveInsideProject, applyFileChanges, snapshotFiles, restoreSnapshot } from './file-changes.js';
+
+describe('parseFileSections', () => {
+  it('reads each file section', () => {
+    const sections = parseFileSections(`--- FILE: src/math.ts ---
+export const add = (a: number, b: number) => a + b;
+--- END FILE ---
+--- FILE: \`src/index.ts\` ---
+export * from './math';
+--- END FILE ---`);
+
+    expect(sections).toEqual([
+      { path: 'src/math.ts', body: 'export const add = (a: number, b: number) => a + b;' },
+      { path: 'src/index.ts', body: "export * from './math';" },
+    ]);
+  });
+});
+
+describe('resolveInsideProject', () => {
+  let root: string;
+  let projectPath: string;
+
+  beforeAll(async () => {
+    root = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'tdd-ai-paths-')));
+    projectPath = path.join(root, 'project');
+    await fs.mkdir(path.join(projectPath, 'src'), { recursive: true });
+    await fs.mkdir(path.join(root, 'outside'));
+    // Links inside the project to a directory outside it, and to a file that doesn't exist yet
+    await fs.symlink(path.join(root, 'outside'), path.join(projectPath, 'linked'), 'dir');
+    await fs.symlink(path.join(root, 'outside', 'new.ts'), path.join(projectPath, 'dangling.ts'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('resolves project-relative paths, including ones that do not exist yet', async () => {
+    expect(await resolveInsideProject(projectPath, 'src/math.ts')).toBe(path.join(projectPath, 'src/math.ts'));
+    expect(await resolveInsideProject(projectPath, 'lib/util/math.ts')).toBe(path.join(projectPath, 'lib/util/math.ts'));
+  });
+
+  it('rejects paths outside the project or in node_modules', async () => {
+    await expect(resolveInsideProject(projectPath, '../other/math.ts')).rejects.toThrow(/outside the project/);
+    await expect(resolveInsideProject(projectPath, '/etc/passwd')).rejects.toThrow(/outside the project/);
+    await expect(resolveInsideProject(projectPath, 'node_modules/pkg/index.js')).rejects.toThrow(/node_modules/);
+  });
+
+  it('rejects paths that leave the project through a symlink', async () => {
+    await expect(resolveInsideProject(projectPath, 'linked/secret.txt')).rejects.toThrow(/outside the project/);
+    await expect(resolveInsideProject(projectPath, 'linked/new/math.ts')).rejects.toThrow(/outside the project/);
+    await expect(resolveInsideProject(projectPath, 'dangling.ts')).rejects.toThrow(/outside the project/);
+  });
+});
+
+describe('applyFileChanges', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tdd-ai-files-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('writes new and existing files', async () => {
+    await fs.writeFile(path.join(dir, 'math.ts'), 'old');
+
+    const result = await applyFileChanges([
+      { path: path.join(dir, 'math.ts'), action: 'modify', content: 'new' },
+      { path: path.join(dir, 'lib/util.ts'), action: 'create', content: 'created' },
+    ]);
+
+    expect(result.success).toBe(true);
+    expect(await fs.readFile(path.join(dir, 'math.ts'), 'utf-8')).toBe('new');
+    expect(await fs.readFile(path.join(dir, 'lib/util.ts'), 'utf-8')).toBe('created');
+  });
+
+  it('restores a snapshot, removing files that did not exist', async () => {
+    await fs.writeFile(path.join(dir, 'math.ts'), 'old');
+    const snapshots = await snapshotFiles([path.join(dir, 'math.ts'), path.join(dir, 'new.ts')]);
+
+    await applyFileChanges([
+      { path: path.join(dir, 'math.ts'), action: 'modify', content: 'new' },
+      { path: path.join(dir, 'new.ts'), action: 'create', content: 'created' },
+    ]);
+    await restoreSnapshot(snapshots);
+
+    expect(await fs.readFile(path.join(dir, 'math.ts'), 'utf-8')).toBe('old');
+    await expect(fs.access(path.join(dir, 'new.ts'))).rejects.toThrow();
+  });
+});
@@ -0,0 +1,194 @@
+// src/utils/file-changes.ts
+import fs from 'fs/promises';
+import path from 'path';
+import { FileChange } from '../types.js';
+import { logger } from './logger.js';
+
+export interface FileSection {
+  path: string;
+  body: string;
+}
+
+const FILE_SECTION_REGEX = /^-{3} FILE: (.+?) -{3}[ \t]*\n([\s\S]*?)\n?^-{3} END FILE -{3}[ \t]*$/gm;
+
+/**
+ * Resolves a path against the project root and rejects paths that escape it, including
+ * through a symlink inside the project that points outside
+ * @param projectPath - Project root
+ * @param filePath - Absolute or project-relative path
+ * @returns The absolute path
+ * @throws Error if the path is outside the project
+ */
+export async function resolveInsideProject(projectPath: string, filePath: string): Promise<string> {
+  const root = path.resolve(projectPath);
+  const resolved = path.resolve(root, filePath);
+  assertInsideProject(root, resolved, filePath);
+
+  // The path may not exist yet, so check where its nearest existing part really leads
+  const realRoot = await fs.realpath(root).catch(() => root);
+  assertInsideProject(realRoot, await realPathOfNearestExisting(resolved), filePath);
+
+  return resolved;
+}
+
+function assertInsideProject(root: string, resolved: string, filePath: string): void {
+  const relative = path.relative(root, resolved);
+
+  if (relative === '' || relative.startsWith('..') || path.isAbsolute(relative)) {
+    throw new Error(`Path ${filePath} is outside the project directory ${root}`);
+  }
+
+  if (relative.split(path.sep).includes('node_modules')) {
+    throw new Error(`Path ${filePath} is inside node_modules`);
+  }
+}
+
+/**
+ * Resolves the symlinks in a path that may not exist yet: the real path of its nearest existing
+ * ancestor, with the missing parts appended. A dangling symlink is followed, since writing to it
+ * creates its target.
+ */
+async function realPathOfNearestExisting(filePath: string): Promise<string> {
+  const missing: string[] = [];
+  let current = filePath;
+
+  // Bounded, so a symlink loop can't keep this going
+  for (let hops = 0; hops < 40; hops++) {
+    try {
+      return path.join(await fs.realpath(current), ...missing);
+    } catch {
+      const target = await fs.readlink(current).catch(() => null);
+      if (target !== null) {
+        current = path.resolve(path.dirname(current), target);
+        continue;
+      }
+
+      const parent = path.dirname(current);
+      if (parent === current) {
+        break;
+      }
+      missing.unshift(path.basename(current));
+      current = parent;
+    }
+  }
+
+  return path.join(current, ...missing);
+}
+
+/**
+ * Parses file sections from a model response:
+ *
+ *     --- FILE: src/math.ts ---
+ *     file content
+ *     --- END FILE ---
+ *
+ * @param text - Model response
+ * @returns The sections in the order they appear
+ */
+export function parseFileSections(text: string): FileSection[] {
+  const sections: FileSection[] = [];
+
+  for (const match of text.matchAll(FILE_SECTION_REGEX)) {
+    sections.push({
+      path: match[1].trim().replace(/^[`'"]|[`'"]$/g, ''),
+      body: match[2],
+    });
+  }
+
+  logger.debug(`Parsed ${sections.length} file sections`);
+  return sections;
+}
+
+/**
+ * Writes a set of file changes atomically: every file is staged next to its target first,
+ * and if any write fails, files already replaced are restored and new files removed.
+ * @param changes - File changes with absolute paths
+ * @returns Whether all changes were applied, and the error if not
+ */
+export async function applyFileChanges(changes: FileChange[]): Promise<{ success: boolean; error?: string }> {
+  const staged: Array<{ change: FileChange; tempPath: string; original: string | null }> = [];
+
+  try {
+    for (const change of changes) {
+      let original: string | null = null;
+      try {
+        original = await fs.readFile(change.path, 'utf-8');
+      } catch {
+        original = null;
+      }
+
+      await fs.mkdir(path.dirname(change.path), { recursive: true });
+      const tempPath = `${change.path}.tdd-ai-${process.pid}.tmp`;
+      await fs.writeFile(tempPath, change.content);
+      staged.push({ change, tempPath, original });
+    }
+  } catch (error) {
+    logger.error('Error staging file changes:', error);
+    await Promise.all(staged.map(({ tempPath }) => fs.rm(tempPath, { force: true })));
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+
+  const committed: typeof staged = [];
+  try {
+    for (const entry of staged) {
+      await fs.rename(entry.tempPath, entry.change.path);
+      committed.push(entry);
+      logger.info(`${entry.original === null ? 'Created' : 'Updated'} ${entry.change.path} (${entry.change.content.length} characters)`);
+    }
+    return { success: true };
+  } catch (error) {
+    logger.error('Error applying file changes, rolling back:', error);
+
+    for (const entry of committed) {
+      try {
+        if (entry.original === null) {
+          await fs.rm(entry.change.path, { force: true });
+        } else {
+          await fs.writeFile(entry.change.path, entry.original);
+        }
+      } catch (rollbackError) {
+        logger.error(`Failed to roll back ${entry.change.path}:`, rollbackError);
+      }
+    }
+    await Promise.all(staged.map(({ tempPath }) => fs.rm(tempPath, { force: true })));
+
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+export interface FileSnapshot {
+  path: string;
+  // null if the file did not exist
+  content: string | null;
+}
+
+/**
+ * Records the current content of files so they can be restored later
+ * @param paths - Absolute file paths
+ */
+export async function snapshotFiles(paths: string[]): Promise<FileSnapshot[]> {
+  return Promise.all(paths.map(async (filePath) => {
+    try {
+      return { path: filePath, content: await fs.readFile(filePath, 'utf-8') };
+    } catch {
+      return { path: filePath, content: null };
+    }
+  }));
+}
+
+/**
+ * Puts files back the way they were when the snapshot was taken, removing files that didn't exist
+ */
+export async function restoreSnapshot(snapshots: FileSnapshot[]): Promise<void> {
+  for (const snapshot of snapshots) {
+    try {
+      if (snapshot.content === null) {
+        await fs.rm(snapshot.path, { force: true });
+      } else {
+        await fs.writeFile(snapshot.path, snapshot.content);
+      }
+    } catch (error) {
+      logger.error(`Failed to restore ${snapshot.path}:`, error);
+    }
+  }
+}
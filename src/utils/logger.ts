@@ -1,7 +1,16 @@
 // src/utils/logger.ts
 import chalk from 'chalk';
 
-type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error'] as const;
+
+export type LogLevel = typeof LOG_LEVELS[number];
+
+/**
+ * Whether a string, such as a command line option, names a log level
+ */
+export function isLogLevel(value: unknown): value is LogLevel {
+  return LOG_LEVELS.includes(value as LogLevel);
+}
 
 interface LoggerOptions {
   level: LogLevel;
@@ -117,7 +126,7 @@ class Logger {
 
 // Export a singleton instance
 export const logger = new Logger({
-  level: process.env.LOG_LEVEL as LogLevel || 'info',
+  level: isLogLevel(process.env.LOG_LEVEL) ? process.env.LOG_LEVEL : 'info',
   timestamps: true,
   colors: true
 });
\ No newline at end of file
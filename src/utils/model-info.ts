@@ -0,0 +1,66 @@
+// src/utils/model-info.ts
+import { TddAiConfig } from './config.js';
+
+// Context window sizes (in tokens) by model name prefix; the longest matching prefix wins
+const CONTEXT_WINDOWS: Record<string, number> = {
+  'gpt-3.5-turbo': 16385,
+  'gpt-4': 8192,
+  'gpt-4-32k': 32768,
+  'gpt-4-turbo': 128000,
+  'gpt-4o': 128000,
+  'gpt-4.1': 1047576,
+  'o1': 200000,
+  'o3': 200000,
+  'o4-mini': 200000,
+  'claude-': 200000,
+  'llama3': 8192,
+  'llama3.1': 131072,
+  'llama3.2': 131072,
+  'mistral': 32768,
+  'qwen2.5-coder': 32768,
+  'codellama': 16384,
+  'deepseek-coder': 16384,
+};
+
+const DEFAULT_CONTEXT_WINDOW = 8192;
+
+// Tokens reserved for the model's reply when config.ai.maxTokens is not set
+const DEFAULT_OUTPUT_RESERVE = 4096;
+
+/**
+ * Returns the context window for a model, preferring config.ai.contextWindow when set
+ * @param model - Model name
+ * @param config - Application configuration
+ * @returns Context window size in tokens
+ */
+export function getContextWindow(model: string, config?: TddAiConfig): number {
+  if (config?.ai.contextWindow) {
+    return config.ai.contextWindow;
+  }
+
+  const name = model.toLowerCase().replace(/^.*\//, '');
+  let bestMatch = '';
+
+  for (const prefix of Object.keys(CONTEXT_WINDOWS)) {
+    if (name.startsWith(prefix) && prefix.length > bestMatch.length) {
+      bestMatch = prefix;
+    }
+  }
+
+  return bestMatch ? CONTEXT_WINDOWS[bestMatch] : DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * Number of tokens available for the user prompt once the system prompt and the reply are accounted for
+ * @param model - Model name
+ * @param config - Application configuration
+ * @param systemPromptTokens - Size of the system prompt in tokens
+ */
+export function getPromptTokenBudget(model: string, config: TddAiConfig, systemPromptTokens: number): number {
+  const contextWindow = getContextWindow(model, config);
+  const outputReserve = config.ai.maxTokens || DEFAULT_OUTPUT_RESERVE;
+  // Leave a small margin because token counts are estimates
+  const margin = Math.ceil(contextWindow * 0.05);
+
+  return Math.max(0, contextWindow - outputReserve - systemPromptTokens - margin);
+}
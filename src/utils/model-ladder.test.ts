@@ -0,0 +1,47 @@
+// src/utils/model-ladder.test.ts
+import { describe, it, expect } from 'vitest';
+import { ModelLadder } from './model-ladder.js';
+import { TddAiConfig } from './config.js';
+
+function ladderConfig(modelLadder?: TddAiConfig['ai']['modelLadder']): TddAiConfig {
+  return { ai: { model: 'gpt-4o-mini', modelLadder } } as TddAiConfig;
+}
+
+describe('ModelLadder', () => {
+  it('uses config.ai.model throughout without a ladder', () => {
+    const ladder = new ModelLadder(ladderConfig());
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      expect(ladder.startAttempt(0)).toBeNull();
+    }
+    expect(ladder.current).toBe('gpt-4o-mini');
+  });
+
+  it('moves up once the tests stop improving for stuckAfter attempts', () => {
+    const ladder = new ModelLadder(ladderConfig({ models: ['small', 'large'], attemptsPerModel: 10, stuckAfter: 2 }));
+
+    expect(ladder.startAttempt(1)).toBeNull();
+    expect(ladder.startAttempt(2)).toBeNull();
+    expect(ladder.startAttempt(2)).toBeNull();
+    expect(ladder.current).toBe('small');
+
+    expect(ladder.startAttempt(2)).toBe('no more tests passing after 2 attempts with small');
+    expect(ladder.current).toBe('large');
+  });
+
+  it('moves up after attemptsPerModel attempts and stays on the last model', () => {
+    const ladder = new ModelLadder(ladderConfig({ models: ['small', 'large'], attemptsPerModel: 2, stuckAfter: 0 }));
+
+    expect(ladder.startAttempt(1)).toBeNull();
+    expect(ladder.startAttempt(2)).toBeNull();
+    expect(ladder.startAttempt(3)).toBe('2 failed attempts with small');
+    expect(ladder.current).toBe('large');
+
+    expect(ladder.startAttempt(4)).toBeNull();
+    expect(ladder.startAttempt(5)).toBeNull();
+    expect(ladder.current).toBe('large');
+
+    ladder.reset();
+    expect(ladder.current).toBe('small');
+  });
+});
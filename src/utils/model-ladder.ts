@@ -0,0 +1,77 @@
+// src/utils/model-ladder.ts
+import { TddAiConfig } from './config.js';
+
+const DEFAULT_ATTEMPTS_PER_MODEL = 3;
+const DEFAULT_STUCK_AFTER = 2;
+
+/**
+ * Picks the model for each attempt from config.ai.modelLadder, moving to the next model
+ * after a number of failed attempts or when the tests stop improving.
+ * Without a ladder, config.ai.model is used throughout.
+ */
+export class ModelLadder {
+  private readonly models: string[];
+  private readonly attemptsPerModel: number;
+  private readonly stuckAfter: number;
+
+  private index = 0;
+  private attemptsOnModel = 0;
+  private bestPassing = -1;
+  private attemptsWithoutProgress = 0;
+
+  constructor(config: TddAiConfig) {
+    const ladder = config.ai.modelLadder;
+    this.models = ladder?.models.length ? ladder.models : [config.ai.model];
+    this.attemptsPerModel = ladder?.attemptsPerModel ?? DEFAULT_ATTEMPTS_PER_MODEL;
+    this.stuckAfter = ladder?.stuckAfter ?? DEFAULT_STUCK_AFTER;
+  }
+
+  /**
+   * Model to use for the next generation
+   */
+  get current(): string {
+    return this.models[this.index];
+  }
+
+  /**
+   * Starts an attempt that will generate code, moving up the ladder first if needed
+   * @param passingTests - Tests passing with the current implementation
+   * @returns The reason for switching models, or null if the model stays the same
+   */
+  startAttempt(passingTests: number): string | null {
+    if (passingTests > this.bestPassing) {
+      this.bestPassing = passingTests;
+      this.attemptsWithoutProgress = 0;
+    } else {
+      this.attemptsWithoutProgress++;
+    }
+
+    const canEscalate = this.index < this.models.length - 1;
+    let reason: string | null = null;
+
+    if (canEscalate && this.attemptsOnModel >= this.attemptsPerModel) {
+      reason = `${this.attemptsOnModel} failed attempts with ${this.current}`;
+    } else if (canEscalate && this.stuckAfter > 0 && this.attemptsOnModel > 0 && this.attemptsWithoutProgress >= this.stuckAfter) {
+      reason = `no more tests passing after ${this.attemptsWithoutProgress} attempts with ${this.current}`;
+    }
+
+    if (reason) {
+      this.index++;
+      this.attemptsOnModel = 0;
+      this.attemptsWithoutProgress = 0;
+    }
+
+    this.attemptsOnModel++;
+    return reason;
+  }
+
+  /**
+   * Starts again from the first model, e.g. when the tests change
+   */
+  reset(): void {
+    this.index = 0;
+    this.attemptsOnModel = 0;
+    this.bestPassing = -1;
+    this.attemptsWithoutProgress = 0;
+  }
+}
@@ -0,0 +1,81 @@
+// src/utils/parse-coverage.test.ts
+import { describe, it, expect } from 'vitest';
+import path from 'path';
+import { parseIstanbulCoverage, parseNodeTestCoverage } from './parse-coverage.js';
+
+const root = path.resolve('/project');
+const mathFile = path.join(root, 'lib/math.ts');
+
+describe('parseIstanbulCoverage', () => {
+  it('reports unrun statement and branch lines of the wanted files', () => {
+    const report = {
+      [mathFile]: {
+        path: mathFile,
+        statementMap: {
+          0: { start: { line: 2 } },
+          1: { start: { line: 3 } },
+          2: { start: { line: 5 } },
+        },
+        s: { 0: 1, 1: 1, 2: 0 },
+        branchMap: {
+          0: { loc: { start: { line: 2 } }, locations: [{ start: { line: 2 } }, {}] },
+        },
+        b: { 0: [1, 0] },
+      },
+      [path.join(root, 'math.test.ts')]: { statementMap: {}, s: {} },
+    };
+
+    expect(parseIstanbulCoverage(report, [mathFile])).toEqual([{
+      file: mathFile,
+      linePercent: 66.67,
+      branchPercent: 50,
+      uncoveredLines: [5],
+      uncoveredBranchLines: [2],
+    }]);
+  });
+});
+
+describe('parseNodeTestCoverage', () => {
+  it('reads the flat table of older Node versions', () => {
+    const output = [
+      'ok 1 - t',
+      '# start of coverage report',
+      '# -------------------------------------------------------------',
+      '# file         | line % | branch % | funcs % | uncovered lines',
+      '# -------------------------------------------------------------',
+      '# math.test.ts | 100.00 |   100.00 |  100.00 | ',
+      '# lib/math.ts  |  83.33 |    66.67 |  100.00 | 5 7-9',
+      '# -------------------------------------------------------------',
+      '# all files    |  88.89 |    80.00 |  100.00 |',
+      '# -------------------------------------------------------------',
+      '# end of coverage report',
+    ].join('\n');
+
+    expect(parseNodeTestCoverage(output, root, [mathFile])).toEqual([{
+      file: mathFile,
+      linePercent: 83.33,
+      branchPercent: 66.67,
+      uncoveredLines: [5, 7, 8, 9],
+      uncoveredBranchLines: [],
+    }]);
+  });
+
+  it('follows directory rows in the nested table of newer Node versions', () => {
+    const output = [
+      '# start of coverage report',
+      '# file          | line % | branch % | funcs % | uncovered lines',
+      '# lib           |        |          |         | ',
+      '#  math.ts      |  83.33 |    66.67 |  100.00 | 5',
+      '# math.test.ts  | 100.00 |   100.00 |  100.00 | ',
+      '# end of coverage report',
+    ].join('\n');
+
+    expect(parseNodeTestCoverage(output, root, [mathFile])?.map(file => [file.file, file.uncoveredLines])).toEqual([
+      [mathFile, [5]],
+    ]);
+  });
+
+  it('returns null without a coverage report', () => {
+    expect(parseNodeTestCoverage('ok 1 - t\n1..1', root, [mathFile])).toBeNull();
+  });
+});
@@ -0,0 +1,142 @@
+// src/utils/parse-coverage.ts
+import path from 'path';
+import { FileCoverage } from '../types.js';
+import { logger } from './logger.js';
+
+interface IstanbulLocation {
+  start?: { line?: number };
+}
+
+// One file's entry in an Istanbul JSON report; statement and branch counts are keyed by the ids of their maps
+export interface IstanbulFileCoverage {
+  path?: string;
+  statementMap?: Record<string, { start: { line: number } }>;
+  s?: Record<string, number>;
+  branchMap?: Record<string, { loc?: IstanbulLocation; line?: number; locations?: IstanbulLocation[] }>;
+  b?: Record<string, number[]>;
+}
+
+/**
+ * Reads the coverage of the given source files from an Istanbul JSON report (coverage-final.json),
+ * which both Vitest and Jest write for V8 coverage. A line counts as covered when any statement
+ * starting on it ran.
+ * @param report - Parsed report, keyed by absolute file path
+ * @param sourceFiles - Absolute paths of the files to report on
+ * @returns Coverage of the source files found in the report
+ */
+export function parseIstanbulCoverage(report: Record<string, IstanbulFileCoverage>, sourceFiles: string[]): FileCoverage[] {
+  const wanted = new Set(sourceFiles.map(file => path.resolve(file)));
+  const files: FileCoverage[] = [];
+
+  for (const [key, data] of Object.entries(report)) {
+    const file = path.resolve(data?.path || key);
+    if (!wanted.has(file)) continue;
+
+    const lineCounts = new Map<number, number>();
+    for (const [id, statement] of Object.entries(data.statementMap || {})) {
+      const line = statement.start.line;
+      lineCounts.set(line, Math.max(lineCounts.get(line) ?? 0, data.s?.[id] ?? 0));
+    }
+
+    let branches = 0;
+    let coveredBranches = 0;
+    const uncoveredBranchLines = new Set<number>();
+    for (const [id, branch] of Object.entries(data.branchMap || {})) {
+      (branch.locations || []).forEach((location, index) => {
+        branches++;
+        if ((data.b?.[id]?.[index] ?? 0) > 0) {
+          coveredBranches++;
+        } else {
+          // Implicit branches, like a missing else, have no location of their own
+          const line = location?.start?.line ?? branch.loc?.start?.line ?? branch.line;
+          if (line !== undefined) {
+            uncoveredBranchLines.add(line);
+          }
+        }
+      });
+    }
+
+    const uncoveredLines = Array.from(lineCounts.entries())
+      .filter(([, count]) => count === 0)
+      .map(([line]) => line)
+      .sort((a, b) => a - b);
+
+    files.push({
+      file,
+      linePercent: percent(lineCounts.size - uncoveredLines.length, lineCounts.size),
+      branchPercent: percent(coveredBranches, branches),
+      uncoveredLines,
+      uncoveredBranchLines: Array.from(uncoveredBranchLines).filter(Number.isFinite).sort((a, b) => a - b),
+    });
+  }
+
+  logger.debug(`Found coverage for ${files.length} of ${sourceFiles.length} source files`);
+  return files;
+}
+
+/**
+ * Reads the coverage table that `node --test --experimental-test-coverage` writes as TAP comments.
+ * Newer Node versions nest files under directory rows; older ones list paths directly.
+ * Branches are only reported as percentages, so uncoveredBranchLines stays empty.
+ * @param output - TAP output
+ * @param cwd - Directory the paths in the table are relative to
+ * @param sourceFiles - Absolute paths of the files to report on
+ * @returns Coverage of the source files in the table, or null if the output has no coverage report
+ */
+export function parseNodeTestCoverage(output: string, cwd: string, sourceFiles: string[]): FileCoverage[] | null {
+  const lines = output.split(/\r?\n/);
+  const start = lines.findIndex(line => /^#\s*start of coverage report/.test(line));
+  if (start === -1) {
+    return null;
+  }
+
+  const wanted = new Set(sourceFiles.map(file => path.resolve(file)));
+  const files: FileCoverage[] = [];
+  // Directory names at each nesting level above the current row
+  const directories: string[] = [];
+
+  for (const line of lines.slice(start + 1)) {
+    if (/^#\s*end of coverage report/.test(line)) break;
+
+    const row = line.match(/^#( *)([^|]*?)\s*\|\s*([\d.]*)\s*\|\s*([\d.]*)\s*\|\s*([\d.]*)\s*\|\s*(.*)$/);
+    if (!row || row[2] === 'file' || row[2] === 'all files') continue;
+
+    const [, indent, name, linePercent, branchPercent, , uncovered] = row;
+    const depth = Math.max(0, indent.length - 1);
+    directories.length = depth;
+
+    if (linePercent === '') {
+      directories.push(name);
+      continue;
+    }
+
+    const file = path.resolve(cwd, ...directories, name);
+    if (!wanted.has(file)) continue;
+
+    files.push({
+      file,
+      linePercent: parseFloat(linePercent),
+      branchPercent: parseFloat(branchPercent) || 0,
+      uncoveredLines: expandLineRanges(uncovered),
+      uncoveredBranchLines: [],
+    });
+  }
+
+  logger.debug(`Found coverage for ${files.length} of ${sourceFiles.length} source files`);
+  return files;
+}
+
+/**
+ * Expands line ranges like '3-5 8' into [3, 4, 5, 8]
+ */
+function expandLineRanges(ranges: string): number[] {
+  return ranges.split(/[\s,]+/).filter(Boolean).flatMap(range => {
+    const [from, to = from] = range.split('-').map(Number);
+    if (!Number.isFinite(from) || !Number.isFinite(to)) return [];
+    return Array.from({ length: to - from + 1 }, (_, index) => from + index);
+  });
+}
+
+function percent(covered: number, total: number): number {
+  return total === 0 ? 100 : Math.round((covered / total) * 10000) / 100;
+}
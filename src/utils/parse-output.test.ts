@@ -0,0 +1,74 @@
+// src/utils/parse-output.test.ts
+import { describe, it, expect } from 'vitest';
+import { parseJestOutput } from './parse-output.js';
+
+const JEST_REPORT = {
+  startTime: 1000,
+  testResults: [
+    {
+      name: '/project/math.test.js',
+      status: 'failed',
+      endTime: 1250,
+      assertionResults: [
+        { fullName: 'math adds', title: 'adds', status: 'passed', duration: 2, failureMessages: [] },
+        {
+          fullName: 'math divides',
+          title: 'divides',
+          status: 'failed',
+          duration: 3,
+          failureMessages: ['Error: expect(received).toBe(expected)\n\nExpected: 2\nReceived: 1'],
+          location: { line: 8, column: 3 },
+        },
+        { fullName: 'math rounds', title: 'rounds', status: 'pending', failureMessages: [] },
+      ],
+    },
+    {
+      name: '/project/broken.test.js',
+      status: 'failed',
+      endTime: 1100,
+      message: 'Cannot find module ./broken',
+      assertionResults: [],
+    },
+  ],
+};
+
+describe('parseJestOutput', () => {
+  it('reads the JSON report among other output, leaving out skipped tests', () => {
+    const output = `Determining test suites to run...\n${JSON.stringify(JEST_REPORT)}\n`;
+
+    const results = parseJestOutput(output);
+
+    expect(results.summary).toEqual({ total: 3, passed: 1, failed: 2, duration: 250 });
+    expect(results.files[0]).toMatchObject({
+      file: '/project/math.test.js',
+      success: false,
+      tests: [
+        { name: 'math adds', success: true, error: undefined, duration: 2 },
+        {
+          name: 'math divides',
+          success: false,
+          error: 'Error: expect(received).toBe(expected)\n\nExpected: 2\nReceived: 1',
+          code: 'Error: expect(received).toBe(expected)',
+          location: '8:3',
+        },
+      ],
+    });
+  });
+
+  it('reports a test file that failed to run as a failing test', () => {
+    const results = parseJestOutput(JSON.stringify(JEST_REPORT));
+
+    expect(results.files[1]).toEqual({
+      file: '/project/broken.test.js',
+      success: false,
+      error: 'Cannot find module ./broken',
+      tests: [{ name: 'Test suite failed to run', success: false, error: 'Cannot find module ./broken', duration: 0 }],
+    });
+  });
+
+  it('reports output without a JSON report as an error', () => {
+    const results = parseJestOutput('jest: command not found');
+
+    expect(results.summary).toMatchObject({ total: 0, failed: 1, error: 'No JSON data found in output' });
+  });
+});
@@ -1,7 +1,31 @@
 // src/utils/parse-output.ts
-import { TestResults } from '../types.js';
+import { TestResults, TestFileResult, TestCaseResult } from '../types.js';
 import { logger } from './logger.js';
 
+// The parts of Jest's --json report we read
+interface JestAssertionResult {
+  fullName?: string;
+  title?: string;
+  status: string;
+  duration?: number;
+  failureMessages?: string[];
+  location?: { line: number; column: number };
+}
+
+interface JestFileResult {
+  name?: string;
+  status?: string;
+  message?: string;
+  endTime?: number;
+  testExecError?: { message?: string };
+  assertionResults?: JestAssertionResult[];
+}
+
+interface JestReport {
+  startTime?: number;
+  testResults?: JestFileResult[];
+}
+
 /**
  * Parses Vitest JSON output into a structured format
  * @param output - Vitest JSON output string
@@ -12,59 +36,9 @@ export function parseVitestOutput(output: string): TestResults {
     logger.debug(`Raw output length: ${output.length} characters`);
     logger.debug(`Raw output preview: ${output.substring(0, 500)}${output.length > 500 ? '...' : ''}`);
 
-    // Check if output is empty or invalid
-    if (!output || output.trim() === '') {
-      logger.error('Vitest output is empty');
-      return createEmptyTestResults('Empty output from Vitest');
-    }
-
-    // Find the JSON part of the output (Vitest might output other logs)
-    const jsonStart = output.indexOf('{');
-    if (jsonStart === -1) {
-      logger.error('Could not find JSON data in Vitest output');
-      return createEmptyTestResults('No JSON data found in output');
-    }
-
-    // Try to find the end of the JSON object
-    let jsonEnd = output.lastIndexOf('}');
-    if (jsonEnd === -1) {
-      logger.error('Could not find end of JSON data in Vitest output');
-      return createEmptyTestResults('Incomplete JSON data in output');
-    }
-
-    const jsonPart = output.substring(jsonStart, jsonEnd + 1);
-    logger.debug(`Extracted JSON length: ${jsonPart.length} characters`);
-    logger.debug(`JSON preview: ${jsonPart.substring(0, 300)}...`);
-
-    let data;
-    try {
-      data = JSON.parse(jsonPart);
-      logger.debug('JSON parsed successfully');
-    } catch (parseError) {
-      logger.error('Failed to parse JSON:', parseError);
-      // Try to extract a cleaner JSON string
-      logger.debug('Attempting to find a cleaner JSON segment...');
-
-      // Find nested JSON objects that might be complete
-      const matches = [...jsonPart.matchAll(/\{(?:[^{}]|(?:\{[^{}]*\}))*\}/g)];
-      if (matches.length > 0) {
-        logger.debug(`Found ${matches.length} potential JSON objects`);
-        for (const match of matches) {
-          try {
-            const cleanerJson = match[0];
-            logger.debug(`Trying JSON segment: ${cleanerJson.substring(0, 100)}...`);
-            data = JSON.parse(cleanerJson);
-            logger.info('Successfully parsed alternative JSON segment');
-            break;
-          } catch (e) {
-            logger.debug('Alternative JSON parsing failed');
-          }
-        }
-      }
-
-      if (!data) {
-        return createEmptyTestResults(`JSON parse error: ${parseError instanceof Error ? parseError.message : String(parseError)}`);
-      }
+    const { data, error } = readJsonOutput(output, 'Vitest');
+    if (error !== undefined) {
+      return createEmptyTestResults(error);
     }
 
     logger.debug('Examining parsed data structure');
@@ -95,6 +69,139 @@ export function parseVitestOutput(output: string): TestResults {
   }
 }
 
+/**
+ * Parses Jest JSON output (--json) into a structured format.
+ * Skipped and todo tests are left out, and a test file that fails to run is reported
+ * as a single failing test carrying the error, so it reaches the AI like any other failure.
+ * @param output - Jest JSON output string
+ * @returns Structured test results
+ */
+export function parseJestOutput(output: string): TestResults {
+  try {
+    const { data, error } = readJsonOutput(output, 'Jest');
+    if (error !== undefined) {
+      return createEmptyTestResults(error);
+    }
+
+    const report = data as JestReport;
+    if (!Array.isArray(report.testResults)) {
+      logger.object('debug', 'Data structure', data);
+      return createEmptyTestResults('No test files found in Jest output');
+    }
+
+    const files: TestFileResult[] = report.testResults.map((fileResult, index) => {
+      const filePath = fileResult.name || `unknown-file-${index}`;
+
+      const tests: TestCaseResult[] = (fileResult.assertionResults || [])
+        .filter(test => test.status === 'passed' || test.status === 'failed')
+        .map(test => ({
+          name: test.fullName || test.title || 'Unnamed test',
+          success: test.status === 'passed',
+          error: test.status === 'failed' ? test.failureMessages?.join('\n') || 'Unknown error' : undefined,
+          code: test.status === 'failed' ? extractTestCode(test) : undefined,
+          duration: test.duration || 0,
+          location: test.location ? `${test.location.line}:${test.location.column}` : undefined
+        }));
+
+      // The file itself failed, e.g. a syntax error or a missing module
+      const fileError = fileResult.testExecError?.message || (tests.length === 0 && fileResult.status === 'failed' ? fileResult.message : undefined);
+      if (fileError) {
+        tests.push({ name: 'Test suite failed to run', success: false, error: fileError, duration: 0 });
+      }
+
+      logger.debug(`File ${filePath} has ${tests.length} tests, ${tests.filter(test => !test.success).length} failing`);
+
+      return {
+        file: filePath,
+        success: tests.every(test => test.success),
+        tests,
+        error: fileError
+      };
+    });
+
+    const allTests = files.flatMap(file => file.tests);
+    const endTime = Math.max(0, ...report.testResults.map(fileResult => fileResult.endTime || 0));
+    const summary = {
+      total: allTests.length,
+      passed: allTests.filter(test => test.success).length,
+      failed: allTests.filter(test => !test.success).length,
+      duration: report.startTime && endTime ? Math.max(0, endTime - report.startTime) : 0
+    };
+
+    logger.info(`Parsed ${files.length} test files with ${summary.total} tests (${summary.passed} passed, ${summary.failed} failed)`);
+
+    return { files, summary };
+  } catch (error) {
+    logger.error('Unexpected error parsing Jest output:', error);
+    return createEmptyTestResults(error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Finds and parses the JSON report in a test runner's output, which may be surrounded by other logs
+ * @param output - Raw runner output
+ * @param runner - Runner name for log messages
+ * @returns The parsed report, or an error message
+ */
+function readJsonOutput(output: string, runner: string): { data?: unknown; error?: string } {
+  // Check if output is empty or invalid
+  if (!output || output.trim() === '') {
+    logger.error(`${runner} output is empty`);
+    return { error: `Empty output from ${runner}` };
+  }
+
+  // Find the JSON part of the output (the runner might output other logs)
+  const jsonStart = output.indexOf('{');
+  if (jsonStart === -1) {
+    logger.error(`Could not find JSON data in ${runner} output`);
+    return { error: 'No JSON data found in output' };
+  }
+
+  // Try to find the end of the JSON object
+  const jsonEnd = output.lastIndexOf('}');
+  if (jsonEnd === -1) {
+    logger.error(`Could not find end of JSON data in ${runner} output`);
+    return { error: 'Incomplete JSON data in output' };
+  }
+
+  const jsonPart = output.substring(jsonStart, jsonEnd + 1);
+  logger.debug(`Extracted JSON length: ${jsonPart.length} characters`);
+  logger.debug(`JSON preview: ${jsonPart.substring(0, 300)}...`);
+
+  let data;
+  try {
+    data = JSON.parse(jsonPart);
+    logger.debug('JSON parsed successfully');
+  } catch (parseError) {
+    logger.error('Failed to parse JSON:', parseError);
+    // Try to extract a cleaner JSON string
+    logger.debug('Attempting to find a cleaner JSON segment...');
+
+    // Find nested JSON objects that might be complete
+    const matches = [...jsonPart.matchAll(/\{(?:[^{}]|(?:\{[^{}]*\}))*\}/g)];
+    if (matches.length > 0) {
+      logger.debug(`Found ${matches.length} potential JSON objects`);
+      for (const match of matches) {
+        try {
+          const cleanerJson = match[0];
+          logger.debug(`Trying JSON segment: ${cleanerJson.substring(0, 100)}...`);
+          data = JSON.parse(cleanerJson);
+          logger.info('Successfully parsed alternative JSON segment');
+          break;
+        } catch (e) {
+          logger.debug('Alternative JSON parsing failed');
+        }
+      }
+    }
+
+    if (!data) {
+      return { error: `JSON parse error: ${parseError instanceof Error ? parseError.message : String(parseError)}` };
+    }
+  }
+
+  return { data };
+}
+
 /**
  * Extracts file results from various Vitest output formats
  */
@@ -108,9 +215,9 @@ function extractFileResults(data: any): TestResults['files'] {
       // Get the file path from the appropriate property
       const filePath = fileResult.name || fileResult.filepath || fileResult.file || `unknown-file-${index}`;
 
-      // Extract the tests from assertionResults
+      // Extract the tests from assertionResults, leaving out skipped ones (e.g. those excluded by a name filter)
       const tests = Array.isArray(fileResult.assertionResults)
-        ? fileResult.assertionResults
+        ? fileResult.assertionResults.filter((test: any) => !['skipped', 'pending', 'todo', 'disabled'].includes(test.status))
         : [];
 
       // Transform the tests
@@ -341,7 +448,7 @@ function extractTestCode(test: any): string | undefined {
 /**
  * Helper function to create empty test results with error info
  */
-function createEmptyTestResults(errorMessage: string): TestResults {
+export function createEmptyTestResults(errorMessage: string): TestResults {
   logger.debug(`Creating empty test results with error: ${errorMessage}`);
 
   return {
@@ -0,0 +1,79 @@
+// src/utils/parse-tap.test.ts
+import { describe, it, expect } from 'vitest';
+import { parseTapOutput, FILE_COMMENT_PREFIX } from './parse-tap.js';
+
+const OUTPUT = `TAP version 13
+# Subtest: math
+    # Subtest: adds
+    # ${FILE_COMMENT_PREFIX}/project/math.test.js
+    ok 1 - adds
+      ---
+      duration_ms: 0.5
+      ...
+    # Subtest: divides
+    # ${FILE_COMMENT_PREFIX}/project/math.test.js
+    not ok 2 - divides
+      ---
+      duration_ms: 0.7
+      location: '/project/math.test.js:8:3'
+      failureType: 'testCodeFailure'
+      error: 'Expected values to be strictly equal'
+      expected: 2
+      actual: 1
+      stack: |-
+        TestContext.<anonymous> (file:///project/math.test.js:9:12)
+      ...
+    # Subtest: later
+    ok 3 - later # SKIP
+    1..3
+# ${FILE_COMMENT_PREFIX}/project/math.test.js
+not ok 1 - math
+  ---
+  duration_ms: 2
+  type: 'suite'
+  location: '/project/math.test.js:3:1'
+  failureType: 'subtestsFailed'
+  error: '1 subtest failed'
+  ...
+# Subtest: greets
+# ${FILE_COMMENT_PREFIX}/project/greet.test.js
+ok 2 - greets
+  ---
+  duration_ms: 0.2
+  ...
+1..2
+# tests 4
+# duration_ms 120.5
+`;
+
+describe('parseTapOutput', () => {
+  it('groups tests by the file the reporter names, even when they pass', () => {
+    const results = parseTapOutput(OUTPUT);
+
+    expect(results.files.map(file => file.file)).toEqual(['/project/math.test.js', '/project/greet.test.js']);
+    expect(results.files[1]).toMatchObject({ success: true, tests: [{ name: 'greets', success: true }] });
+  });
+
+  it('names subtests after their parents and describes failures', () => {
+    const [math] = parseTapOutput(OUTPUT).files;
+
+    expect(math.success).toBe(false);
+    expect(math.tests.map(test => test.name)).toEqual(['math > adds', 'math > divides']);
+    expect(math.tests[1]).toMatchObject({
+      success: false,
+      location: '8:3',
+      error: 'Expected values to be strictly equal\nExpected: 2\nActual: 1\n    at TestContext.<anonymous> (file:///project/math.test.js:9:12)',
+    });
+  });
+
+  it('summarizes the counted tests, leaving out skipped ones', () => {
+    expect(parseTapOutput(OUTPUT).summary).toEqual({ total: 3, passed: 2, failed: 1, duration: 120.5 });
+  });
+
+  it('falls back to failure locations without file comments', () => {
+    const output = OUTPUT.split('\n').filter(line => !line.includes(FILE_COMMENT_PREFIX)).join('\n');
+    const results = parseTapOutput(output);
+
+    expect(results.files.map(file => file.file)).toEqual(['/project/math.test.js', 'unknown']);
+  });
+});
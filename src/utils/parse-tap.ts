@@ -0,0 +1,241 @@
+// src/utils/parse-tap.ts
+import { TestResults, TestFileResult, TestCaseResult } from '../types.js';
+import { logger } from './logger.js';
+import { createEmptyTestResults } from './parse-output.js';
+
+// Indentation of one level of subtests in node:test TAP output
+const INDENT_WIDTH = 4;
+
+const TEST_POINT_REGEX = /^(\s*)(ok|not ok)\s+\d+(?:\s+-\s+(.*?))?(?:\s+#\s+(SKIP|TODO)\b.*)?$/i;
+
+// Comment our node:test reporter writes before each test point, naming the file the test is in
+export const FILE_COMMENT_PREFIX = 'tdd-ai-coder file: ';
+
+interface TapTestPoint {
+  name: string;
+  ok: boolean;
+  level: number;
+  directive?: string;
+  details: Record<string, string>;
+  // Diagnostic comments written since the previous test point, e.g. the error of a file that failed to load
+  comments: string[];
+  children: TapTestPoint[];
+  // Source file named by the reporter's file comment
+  reportedFile?: string;
+  // Source file, from the reporter, the point's own location or a related point's
+  file?: string;
+}
+
+/**
+ * Parses TAP output from `node --test --test-reporter=tap` into a structured format.
+ * Subtests become test cases named after their parents ("suite > test"); only leaf
+ * tests are counted, plus any parent that failed for a reason other than its subtests.
+ * Skipped and todo tests are left out. Test files come from the file comments our reporter
+ * writes (FILE_COMMENT_PREFIX), else from failure locations; tests whose file can't be
+ * determined are grouped under 'unknown'.
+ * @param output - TAP output
+ * @returns Structured test results
+ */
+export function parseTapOutput(output: string): TestResults {
+  const lines = output.split(/\r?\n/);
+  // Finished points per nesting level, waiting for their parent's test point
+  const pending: TapTestPoint[][] = [];
+  let comments: string[] = [];
+  let reportedFile: string | undefined;
+  let duration = 0;
+
+  for (let index = 0; index < lines.length; index++) {
+    const match = lines[index].match(TEST_POINT_REGEX);
+
+    if (!match) {
+      const comment = lines[index].match(/^\s*#\s?(.*)$/);
+      const durationMatch = lines[index].match(/^#\s*duration_ms\s+([\d.]+)/);
+      if (durationMatch) {
+        duration = parseFloat(durationMatch[1]);
+      } else if (comment?.[1].startsWith(FILE_COMMENT_PREFIX)) {
+        reportedFile = comment[1].slice(FILE_COMMENT_PREFIX.length).trim();
+      } else if (comment && !comment[1].startsWith('Subtest:')) {
+        comments.push(comment[1]);
+      }
+      continue;
+    }
+
+    const level = Math.floor(match[1].length / INDENT_WIDTH);
+    const { details, nextIndex } = readYamlBlock(lines, index + 1);
+    index = nextIndex - 1;
+
+    const point: TapTestPoint = {
+      name: match[3]?.trim() || 'Unnamed test',
+      ok: match[2].toLowerCase() === 'ok',
+      level,
+      directive: match[4]?.toUpperCase(),
+      details,
+      comments,
+      children: pending[level + 1] || [],
+      reportedFile,
+    };
+    comments = [];
+    reportedFile = undefined;
+    pending[level + 1] = [];
+    (pending[level] ||= []).push(point);
+  }
+
+  const roots = pending[0] || [];
+  if (roots.length === 0) {
+    logger.warn('No test results found in TAP output');
+    return createEmptyTestResults('No test results found in node:test output');
+  }
+
+  roots.forEach(root => assignFiles(root, undefined));
+
+  const files = new Map<string, TestFileResult>();
+  for (const root of roots) {
+    collectCases(root, [], files);
+  }
+
+  const fileResults = Array.from(files.values());
+  const allTests = fileResults.flatMap(file => file.tests);
+  const summary = {
+    total: allTests.length,
+    passed: allTests.filter(test => test.success).length,
+    failed: allTests.filter(test => !test.success).length,
+    duration,
+  };
+
+  logger.info(`Parsed ${fileResults.length} test files with ${summary.total} tests (${summary.passed} passed, ${summary.failed} failed)`);
+  return { files: fileResults, summary };
+}
+
+/**
+ * Reads the YAML diagnostics block (between --- and ...) that may follow a test point.
+ * Supports the subset node:test writes: scalars, quoted strings and |- block strings.
+ */
+function readYamlBlock(lines: string[], start: number): { details: Record<string, string>; nextIndex: number } {
+  const details: Record<string, string> = {};
+
+  if (lines[start]?.trim() !== '---') {
+    return { details, nextIndex: start };
+  }
+
+  const blockIndent = lines[start].search(/\S/);
+  let index = start + 1;
+
+  while (index < lines.length && lines[index].trim() !== '...') {
+    const entry = lines[index].match(/^(\s*)([\w-]+):\s?(.*)$/);
+    index++;
+
+    if (!entry || entry[1].length !== blockIndent) continue;
+
+    const [, , key, rawValue] = entry;
+    if (/^[|>][-+]?$/.test(rawValue)) {
+      // Block string: every following line indented deeper than the key
+      const blockLines: string[] = [];
+      while (index < lines.length && lines[index].trim() !== '...' && (lines[index].trim() === '' || lines[index].search(/\S/) > blockIndent)) {
+        blockLines.push(lines[index].slice(blockIndent + 2));
+        index++;
+      }
+      details[key] = blockLines.join('\n').trim();
+    } else {
+      details[key] = unquote(rawValue.trim());
+    }
+  }
+
+  return { details, nextIndex: index + 1 };
+}
+
+function unquote(value: string): string {
+  if (value.length >= 2 && value.startsWith("'") && value.endsWith("'")) {
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  if (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value.slice(1, -1);
+    }
+  }
+  return value === '~' ? '' : value;
+}
+
+/**
+ * Splits a location like '/path/file.test.js:5:3' into the file and 'line:column'
+ */
+function parseLocation(location?: string): { file?: string; position?: string } {
+  const match = location?.match(/^(.*):(\d+):(\d+)$/);
+  return match ? { file: match[1], position: `${match[2]}:${match[3]}` } : {};
+}
+
+/**
+ * Gives every point a file: the reported one or its own location's, else its parent's,
+ * else the first one found among its subtests
+ */
+function assignFiles(point: TapTestPoint, parentFile: string | undefined): string | undefined {
+  point.file = point.reportedFile || parseLocation(point.details.location).file || parentFile;
+  for (const child of point.children) {
+    const childFile = assignFiles(child, point.file);
+    point.file ||= childFile;
+  }
+  // Subtests seen before the parent's file was known
+  point.children.forEach(child => {
+    if (!child.file) assignFiles(child, point.file);
+  });
+  return point.file;
+}
+
+function collectCases(point: TapTestPoint, ancestors: string[], files: Map<string, TestFileResult>): void {
+  if (point.directive === 'SKIP' || point.directive === 'TODO') {
+    return;
+  }
+
+  const names = [...ancestors, point.name];
+  point.children.forEach(child => collectCases(child, names, files));
+
+  // A parent only counts as a test of its own when it failed for a reason other than its subtests
+  const ownFailure = !point.ok && point.details.failureType !== 'subtestsFailed';
+  if (point.children.length > 0 && !ownFailure) {
+    return;
+  }
+
+  const fileName = point.file || 'unknown';
+  let file = files.get(fileName);
+  if (!file) {
+    file = { file: fileName, success: true, tests: [] };
+    files.set(fileName, file);
+  }
+
+  const testCase: TestCaseResult = {
+    name: names.join(' > '),
+    success: point.ok,
+    error: point.ok ? undefined : describeFailure(point),
+    duration: parseFloat(point.details.duration_ms) || 0,
+    location: parseLocation(point.details.location).position,
+  };
+
+  file.tests.push(testCase);
+  if (!testCase.success) {
+    file.success = false;
+  }
+}
+
+function describeFailure(point: TapTestPoint): string {
+  const { details } = point;
+
+  // A test file that exited before reporting tests; its output holds the real error
+  if (details.exitCode !== undefined && point.children.length === 0 && point.comments.length > 0) {
+    // Colors are forced on for the runner, so strip them from free-form output
+    return point.comments.join('\n').replace(/\u001b\[[0-9;]*m/g, '').trim();
+  }
+
+  let message = details.error || 'Test failed';
+
+  if (details.expected !== undefined && details.actual !== undefined) {
+    message += `\nExpected: ${details.expected}\nActual: ${details.actual}`;
+  }
+
+  const firstFrame = details.stack?.split('\n')[0];
+  if (firstFrame) {
+    message += `\n    at ${firstFrame}`;
+  }
+
+  return message;
+}
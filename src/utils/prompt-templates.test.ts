@@ -0,0 +1,55 @@
+// src/utils/prompt-templates.test.ts
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { renderTemplate, loadPromptTemplates } from './prompt-templates.js';
+import { TddAiConfig } from './config.js';
+
+describe('renderTemplate', () => {
+  it('fills in known variables and renders unknown ones as empty text', () => {
+    const rendered = renderTemplate('Implement {{ implementationPath }} for {{testFilePath}}.{{missing}}', {
+      implementationPath: 'src/math.ts',
+      testFilePath: 'src/math.test.ts',
+    });
+
+    expect(rendered).toBe('Implement src/math.ts for src/math.test.ts.');
+  });
+
+  it('does not expand placeholders inside variable values', () => {
+    expect(renderTemplate('{{code}}', { code: 'const s = "{{code}}";' })).toBe('const s = "{{code}}";');
+  });
+});
+
+describe('loadPromptTemplates', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tdd-ai-prompts-'));
+    await fs.writeFile(path.join(dir, 'system.md'), 'You write {{language}}.');
+    await fs.writeFile(path.join(dir, 'conventions.md'), '\nUse named exports.\n');
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('reads the configured files and leaves the rest to the built-in prompts', async () => {
+    const templates = await loadPromptTemplates({
+      prompts: { system: path.join(dir, 'system.md'), conventions: path.join(dir, 'conventions.md') },
+    } as TddAiConfig);
+
+    expect(templates).toEqual({
+      system: 'You write {{language}}.',
+      generation: undefined,
+      validationSystem: undefined,
+      validation: undefined,
+      projectConventions: 'Use named exports.',
+    });
+  });
+
+  it('names the template that could not be read', async () => {
+    await expect(loadPromptTemplates({ prompts: { generation: path.join(dir, 'missing.md') } } as TddAiConfig))
+      .rejects.toThrow(/Could not read the generation prompt template/);
+  });
+});
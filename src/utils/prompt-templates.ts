@@ -0,0 +1,68 @@
+// src/utils/prompt-templates.ts
+import fs from 'fs/promises';
+import { TddAiConfig } from './config.js';
+import { logger } from './logger.js';
+
+/**
+ * Prompt templates and project conventions loaded from the files in config.prompts.
+ * A missing template means the built-in prompt is used.
+ */
+export interface PromptTemplates {
+  system?: string;
+  generation?: string;
+  validationSystem?: string;
+  validation?: string;
+  projectConventions: string;
+}
+
+// Unknown variables already warned about, so a template rendered repeatedly doesn't repeat the warning
+const warnedVariables = new Set<string>();
+
+/**
+ * Reads the template files configured in config.prompts.
+ * Files are read on every call so edits apply to the next attempt.
+ * @param config - Application configuration
+ * @throws Error if a configured file cannot be read
+ */
+export async function loadPromptTemplates(config: TddAiConfig): Promise<PromptTemplates> {
+  const prompts = config.prompts || {};
+
+  return {
+    system: await readTemplate(prompts.system, 'system'),
+    generation: await readTemplate(prompts.generation, 'generation'),
+    validationSystem: await readTemplate(prompts.validationSystem, 'validationSystem'),
+    validation: await readTemplate(prompts.validation, 'validation'),
+    projectConventions: (await readTemplate(prompts.conventions, 'conventions'))?.trim() || '',
+  };
+}
+
+/**
+ * Replaces {{name}} placeholders in a template. Unknown names render as empty text.
+ * @param template - Template text
+ * @param variables - Values by variable name
+ */
+export function renderTemplate(template: string, variables: Record<string, string>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) => {
+    if (!(name in variables)) {
+      if (warnedVariables.has(name)) {
+        return '';
+      }
+      warnedVariables.add(name);
+      logger.warn(`Unknown prompt template variable: {{${name}}}. Available: ${Object.keys(variables).join(', ')}`);
+      return '';
+    }
+    return variables[name];
+  });
+}
+
+async function readTemplate(filePath: string | undefined, name: string): Promise<string | undefined> {
+  if (!filePath) {
+    return undefined;
+  }
+
+  try {
+    return await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    throw new Error(`Could not read the ${name} prompt template ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
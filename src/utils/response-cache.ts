@@ -0,0 +1,116 @@
+// src/utils/response-cache.ts
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { TddAiConfig } from './config.js';
+import { logger } from './logger.js';
+
+const DEFAULT_CACHE_DIR = '.tdd-ai-cache';
+const DEFAULT_TTL_HOURS = 24;
+
+interface CacheEntry<T> {
+  key: string;
+  createdAt: string;
+  value: T;
+}
+
+/**
+ * Computes a content-addressed cache key from the parts that identify a response
+ * @param parts - Values that must all match for a cached response to be reused
+ * @returns Hex-encoded SHA-256 hash
+ */
+export function cacheKey(parts: Record<string, unknown>): string {
+  return crypto.createHash('sha256').update(JSON.stringify(parts)).digest('hex');
+}
+
+/**
+ * On-disk cache with one JSON file per key. Entries older than the TTL are ignored
+ * and removed when read. Cache failures are logged and never break the session.
+ */
+export class ResponseCache {
+  constructor(
+    readonly dir: string,
+    private readonly ttlMs: number
+  ) { }
+
+  /**
+   * Returns the cached value for a key, or undefined if it is missing or expired
+   */
+  async get<T>(key: string): Promise<T | undefined> {
+    let entry: CacheEntry<T>;
+    try {
+      entry = JSON.parse(await fs.readFile(this.entryPath(key), 'utf-8')) as CacheEntry<T>;
+    } catch {
+      return undefined;
+    }
+
+    if (Date.now() - new Date(entry.createdAt).getTime() > this.ttlMs) {
+      logger.debug(`Cache entry ${key} has expired`);
+      await this.delete(key);
+      return undefined;
+    }
+
+    return entry.value;
+  }
+
+  async set<T>(key: string, value: T): Promise<void> {
+    const entry: CacheEntry<T> = { key, createdAt: new Date().toISOString(), value };
+
+    try {
+      await fs.mkdir(this.dir, { recursive: true });
+      await fs.writeFile(this.entryPath(key), JSON.stringify(entry, null, 2));
+    } catch (error) {
+      logger.warn(`Failed to write cache entry ${key}:`, error);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.entryPath(key), { force: true }).catch(() => undefined);
+  }
+
+  /**
+   * Removes every cached entry
+   * @returns The number of entries removed
+   */
+  async clear(): Promise<number> {
+    let files: string[];
+    try {
+      files = (await fs.readdir(this.dir)).filter(file => file.endsWith('.json'));
+    } catch {
+      return 0;
+    }
+
+    await Promise.all(files.map(file => fs.rm(path.join(this.dir, file), { force: true })));
+    return files.length;
+  }
+
+  private entryPath(key: string): string {
+    return path.join(this.dir, `${key}.json`);
+  }
+}
+
+/**
+ * Creates the response cache configured in config.cache
+ * @param config - Application configuration
+ * @param projectPath - Project the cache directory is relative to
+ * @returns The cache, or null when caching is disabled
+ */
+export function createResponseCache(config: TddAiConfig, projectPath: string): ResponseCache | null {
+  // Cassettes and scripts already reproduce responses; a cache hit would leave gaps in a recording
+  // or replay an answer the script no longer gives
+  if (config.cache?.enabled === false || config.ai.cassette || config.ai.provider === 'scripted') {
+    return null;
+  }
+
+  const ttlHours = config.cache?.ttlHours ?? DEFAULT_TTL_HOURS;
+  return new ResponseCache(getCacheDir(config, projectPath), ttlHours * 60 * 60 * 1000);
+}
+
+/**
+ * Directory holding the response cache, whether or not caching is enabled
+ * @param config - Application configuration
+ * @param projectPath - Project the cache directory is relative to
+ */
+export function getCacheDir(config: TddAiConfig, projectPath: string): string {
+  return path.resolve(projectPath, config.cache?.dir || DEFAULT_CACHE_DIR);
+}
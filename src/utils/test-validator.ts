@@ -1,11 +1,15 @@
 // src/utils/test-validator.ts
-import { TestFileResult } from '../types.js';
+import { TestFileResult, AiProvider } from '../types.js';
 import { logger } from './logger.js';
-import { OpenAI } from 'openai';
 import { TddAiConfig } from './config.js';
+import { AiProviderError } from '../providers/index.js';
+import { loadPromptTemplates, renderTemplate, PromptTemplates } from './prompt-templates.js';
+import { ResponseCache, cacheKey } from './response-cache.js';
 
-// OpenAI client instance (to be initialized)
-let openai: OpenAI | null = null;
+// AI provider instance (to be initialized)
+let aiProvider: AiProvider | null = null;
+// Cache of LLM analyses, shared along with the provider
+let analysisCache: ResponseCache | null = null;
 
 export interface TestValidationResult {
   isValid: boolean;
@@ -20,13 +24,21 @@ export interface TestIssue {
   suggestion?: string;
 }
 
+// The analysis the model is asked to return; any field may be missing from its reply
+interface LlmAnalysis {
+  issues?: Array<Partial<TestIssue>>;
+  overallAssessment?: string;
+}
+
 /**
- * Share the OpenAI instance from AI service
- * @param aiClient The OpenAI client instance
+ * Share the AI provider from AI service
+ * @param provider The AI provider instance
+ * @param cache Cache for LLM analyses, or null to analyze every time
  */
-export function setOpenAIClient(aiClient: OpenAI): void {
-  openai = aiClient;
-  logger.debug('OpenAI client shared with test validator');
+export function setAIProvider(provider: AiProvider, cache: ResponseCache | null = null): void {
+  aiProvider = provider;
+  analysisCache = cache;
+  logger.debug(`AI provider (${provider.name}) shared with test validator`);
 }
 
 /**
@@ -54,8 +66,8 @@ export async function validateTests(
 
   // Then, use the LLM for deeper analysis if available
   try {
-    if (!openai) {
-      logger.warn('OpenAI client not initialized for test validation, using static analysis only');
+    if (!aiProvider) {
+      logger.warn('AI provider not initialized for test validation, using static analysis only');
       return {
         isValid: staticIssues.every(issue => issue.severity !== 'error'),
         issues: staticIssues,
@@ -140,84 +152,127 @@ function performStaticAnalysis(testCode: string): TestIssue[] {
 }
 
 /**
- * Uses an LLM to analyze test code for logical issues
+ * Uses an LLM to analyze test code for logical issues.
+ * Successful analyses are cached by test code, so an unchanged test file is not analyzed again on every attempt.
  */
 async function performLLMAnalysis(
   testCode: string,
   testResults?: TestFileResult,
   config?: TddAiConfig
 ): Promise<{ issues: TestIssue[], overallAssessment: string }> {
-  if (!openai) {
-    logger.warn('OpenAI client not initialized, skipping LLM test analysis');
-    return { issues: [], overallAssessment: 'LLM analysis unavailable. Make sure the OpenAI client is properly initialized.' };
+  if (!aiProvider) {
+    logger.warn('AI provider not initialized, skipping LLM test analysis');
+    return { issues: [], overallAssessment: 'LLM analysis unavailable. Make sure the AI provider is properly initialized.' };
   }
 
   logger.info('Performing LLM analysis of test code...');
 
   // Create a prompt for the LLM
-  const prompt = buildAnalysisPrompt(testCode, testResults);
+  const templates = config ? await loadPromptTemplates(config) : undefined;
+
+  const key = cacheKey({
+    kind: 'validation',
+    provider: aiProvider.name,
+    model: config?.ai.model,
+    temperature: config?.ai.temperature,
+    testCode,
+    templates: [templates?.validationSystem, templates?.validation, templates?.projectConventions],
+  });
+  const cachedAnalysis = await analysisCache?.get<{ issues: TestIssue[], overallAssessment: string }>(key);
+  if (cachedAnalysis) {
+    logger.info('Test file is unchanged, using the cached LLM analysis');
+    return cachedAnalysis;
+  }
 
-  try {
-    const response = await openai.chat.completions.create({
-      model: config?.ai.model || 'gpt-4-turbo',
-      messages: [
-        {
-          role: "system",
-          content: `You are an expert test engineer who analyzes test code for logical issues, edge cases, 
+  const prompt = buildAnalysisPrompt(testCode, testResults, templates);
+
+  const defaultSystemPrompt = `You are an expert test engineer who analyzes test code for logical issues, edge cases, 
           and testing best practices. Your task is to evaluate test code and provide detailed feedback on 
           potential issues, logical inconsistencies, and suggestions for improvement. Be thorough but fair in 
-          your assessment. Format your response as JSON.`
-        },
+          your assessment. Format your response as JSON.`;
+  const systemPrompt = templates?.validationSystem
+    ? renderTemplate(templates.validationSystem, {
+      defaultSystemPrompt,
+      projectConventions: templates.projectConventions,
+    })
+    : defaultSystemPrompt;
+
+  let analysis: LlmAnalysis | null;
+  try {
+    const response = await aiProvider.completeJson<LlmAnalysis | null>({
+      system: systemPrompt,
+      messages: [
         {
-          role: "user",
+          role: 'user',
           content: prompt
         }
       ],
+      model: config?.ai.model,
       temperature: config?.ai.temperature || 0.3,
-      response_format: { type: "json_object" }
+      purpose: 'validation',
     });
 
-    const analysisText = response.choices[0].message.content;
-
-    if (!analysisText) {
-      logger.warn('LLM returned empty analysis');
-      return { issues: [], overallAssessment: 'No issues detected.' };
-    }
-
-    try {
-      const analysis = JSON.parse(analysisText);
-
-      const issues: TestIssue[] = (analysis.issues || []).map((issue: any) => ({
-        severity: issue.severity || 'warning',
-        message: issue.message || 'Unspecified issue',
-        location: issue.location,
-        suggestion: issue.suggestion
-      }));
-
-      return {
-        issues,
-        overallAssessment: analysis.overallAssessment || 'No overall assessment provided.'
-      };
-    } catch (parseError) {
-      logger.error('Error parsing LLM analysis response:', parseError);
+    analysis = response.data;
+  } catch (error) {
+    if (error instanceof AiProviderError && error.type === 'invalid_response') {
+      logger.error('Error parsing LLM analysis response:', error);
       return {
         issues: [],
         overallAssessment: 'Error parsing analysis results. The AI returned malformed JSON.'
       };
     }
-  } catch (error) {
+
     logger.error('Error getting LLM analysis:', error);
     return {
       issues: [],
       overallAssessment: 'LLM analysis failed due to an API error.'
     };
   }
+
+  if (!analysis || typeof analysis !== 'object') {
+    logger.warn('LLM returned empty analysis');
+    return { issues: [], overallAssessment: 'No issues detected.' };
+  }
+
+  const issues: TestIssue[] = (Array.isArray(analysis.issues) ? analysis.issues : []).map(issue => ({
+    severity: issue.severity === 'error' ? 'error' : 'warning',
+    message: issue.message || 'Unspecified issue',
+    location: issue.location,
+    suggestion: issue.suggestion
+  }));
+
+  const result = {
+    issues,
+    overallAssessment: analysis.overallAssessment || 'No overall assessment provided.'
+  };
+  await analysisCache?.set(key, result);
+
+  return result;
 }
 
 /**
- * Builds a prompt for the LLM to analyze test code
+ * Builds a prompt for the LLM to analyze test code, from the user's validation template if configured
  */
-function buildAnalysisPrompt(testCode: string, testResults?: TestFileResult): string {
+function buildAnalysisPrompt(testCode: string, testResults?: TestFileResult, templates?: PromptTemplates): string {
+  const failingTestsText = testResults
+    ? testResults.tests.filter(t => !t.success).map(test => `- ${test.name}: ${test.error || 'Unknown error'}`).join('\n')
+    : '';
+  const testResultsText = testResults
+    ? `- Total tests: ${testResults.tests.length}
+- Passing tests: ${testResults.tests.filter(t => t.success).length}
+- Failing tests: ${testResults.tests.filter(t => !t.success).length}`
+    : '';
+  const projectConventions = templates?.projectConventions || '';
+
+  if (templates?.validation) {
+    return renderTemplate(templates.validation, {
+      testCode,
+      testResults: testResultsText,
+      failingTests: failingTestsText,
+      projectConventions,
+    });
+  }
+
   let prompt = `
 Please analyze the following test code for logical issues, inconsistencies, and best practices.
 Focus on:
@@ -236,12 +291,17 @@ ${testCode}
   if (testResults) {
     prompt += `
 Test execution results:
-- Total tests: ${testResults.tests.length}
-- Passing tests: ${testResults.tests.filter(t => t.success).length}
-- Failing tests: ${testResults.tests.filter(t => !t.success).length}
+${testResultsText}
 
 Failing tests:
-${testResults.tests.filter(t => !t.success).map(test => `- ${test.name}: ${test.error || 'Unknown error'}`).join('\n')}
+${failingTestsText}
+`;
+  }
+
+  if (projectConventions) {
+    prompt += `
+Project conventions the tests should follow:
+${projectConventions}
 `;
   }
 
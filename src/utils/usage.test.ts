@@ -0,0 +1,47 @@
+// src/utils/usage.test.ts
+import { describe, it, expect } from 'vitest';
+import { UsageTracker, estimateCost, formatUsage } from './usage.js';
+import { TddAiConfig } from './config.js';
+
+describe('estimateCost', () => {
+  it('prices a model by its longest matching prefix, preferring config overrides', () => {
+    const usage = { inputTokens: 1_000_000, outputTokens: 1_000_000 };
+
+    expect(estimateCost('gpt-4o-mini-2024-07-18', usage)).toBeCloseTo(0.75);
+    expect(estimateCost('gpt-4o-2024-08-06', usage)).toBeCloseTo(12.5);
+    expect(estimateCost('llama3', usage)).toBe(0);
+    expect(estimateCost('llama3', usage, { budget: { pricing: { llama3: { input: 1, output: 2 } } } } as TddAiConfig)).toBeCloseTo(3);
+  });
+});
+
+describe('UsageTracker', () => {
+  it('totals usage by purpose and model', () => {
+    const tracker = new UsageTracker();
+    tracker.record('gpt-4o', { inputTokens: 100, outputTokens: 50 }, 'generation');
+    tracker.record('gpt-4o', { inputTokens: 20, outputTokens: 5 }, 'validation', true);
+    tracker.record('llama3', { inputTokens: 10, outputTokens: 10 }, 'generation');
+
+    const usage = tracker.getUsage();
+    expect(usage).toMatchObject({ calls: 3, inputTokens: 130, outputTokens: 65, totalTokens: 195, estimatedCalls: 1, unpricedModels: ['llama3'] });
+    expect(usage.byPurpose.generation).toMatchObject({ calls: 2, totalTokens: 170 });
+    expect(usage.byModel['gpt-4o']).toMatchObject({ calls: 2, totalTokens: 175 });
+    expect(formatUsage(usage)).toBe('3 AI calls, 130 input + 65 output tokens, ~$0.0009');
+  });
+
+  it('reports the budget once a limit is reached', () => {
+    const tracker = new UsageTracker({ budget: { maxTokens: 1000, maxCostUsd: 0.01 } } as TddAiConfig);
+
+    tracker.record('gpt-4o', { inputTokens: 400, outputTokens: 100 }, 'generation');
+    expect(tracker.checkBudget()).toBeNull();
+
+    tracker.record('gpt-4o', { inputTokens: 400, outputTokens: 100 }, 'generation');
+    expect(tracker.checkBudget()).toBe('Token budget exceeded: 1000 of 1000 tokens used');
+  });
+
+  it('has no budget to exceed without config.budget', () => {
+    const tracker = new UsageTracker();
+    tracker.record('gpt-4', { inputTokens: 1_000_000, outputTokens: 1_000_000 }, 'generation');
+
+    expect(tracker.checkBudget()).toBeNull();
+  });
+});
@@ -0,0 +1,157 @@
+// src/utils/usage.ts
+import { AiUsage, SessionUsage, UsageTotals } from '../types.js';
+import { TddAiConfig } from './config.js';
+
+export interface ModelPricing {
+  // USD per million tokens
+  input: number;
+  output: number;
+}
+
+// Published list prices by model name prefix; the longest matching prefix wins
+const MODEL_PRICING: Record<string, ModelPricing> = {
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'gpt-4': { input: 30, output: 60 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'o3-mini': { input: 1.1, output: 4.4 },
+  'o4-mini': { input: 1.1, output: 4.4 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-3-opus': { input: 15, output: 75 },
+  'claude-opus-4': { input: 15, output: 75 },
+};
+
+/**
+ * Looks up the price of a model, preferring config.budget.pricing overrides
+ * @returns The pricing, or undefined if the model is unknown (local models are treated as free)
+ */
+export function getModelPricing(model: string, config?: TddAiConfig): ModelPricing | undefined {
+  const override = config?.budget?.pricing?.[model];
+  if (override) {
+    return override;
+  }
+
+  const name = model.toLowerCase();
+  let bestMatch = '';
+
+  for (const prefix of Object.keys(MODEL_PRICING)) {
+    if (name.startsWith(prefix) && prefix.length > bestMatch.length) {
+      bestMatch = prefix;
+    }
+  }
+
+  return bestMatch ? MODEL_PRICING[bestMatch] : undefined;
+}
+
+/**
+ * Estimates the cost of a call in USD
+ */
+export function estimateCost(model: string, usage: AiUsage, config?: TddAiConfig): number {
+  const pricing = getModelPricing(model, config);
+  if (!pricing) {
+    return 0;
+  }
+
+  return (usage.inputTokens * pricing.input + usage.outputTokens * pricing.output) / 1_000_000;
+}
+
+function emptyTotals(): UsageTotals {
+  return {
+    calls: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    totalTokens: 0,
+    estimatedCostUsd: 0,
+  };
+}
+
+function addTo(totals: UsageTotals, usage: AiUsage, cost: number): void {
+  totals.calls++;
+  totals.inputTokens += usage.inputTokens;
+  totals.outputTokens += usage.outputTokens;
+  totals.totalTokens += usage.inputTokens + usage.outputTokens;
+  totals.estimatedCostUsd += cost;
+}
+
+/**
+ * Aggregates token usage and estimated cost across all AI calls in a session
+ */
+export class UsageTracker {
+  private readonly usage: SessionUsage = {
+    ...emptyTotals(),
+    estimatedCalls: 0,
+    unpricedModels: [],
+    byPurpose: {},
+    byModel: {},
+  };
+
+  constructor(private readonly config?: TddAiConfig) {}
+
+  /**
+   * Records the usage of one AI call
+   * @param model - Model that served the call
+   * @param usage - Token usage
+   * @param purpose - What the call was for (generation, validation, ...)
+   * @param estimated - Whether the token counts were estimated rather than reported by the provider
+   */
+  record(model: string, usage: AiUsage, purpose: string, estimated = false): void {
+    const cost = estimateCost(model, usage, this.config);
+
+    addTo(this.usage, usage, cost);
+    addTo(this.usage.byPurpose[purpose] ??= emptyTotals(), usage, cost);
+    addTo(this.usage.byModel[model] ??= emptyTotals(), usage, cost);
+
+    if (estimated) {
+      this.usage.estimatedCalls++;
+    }
+    if (!getModelPricing(model, this.config) && !this.usage.unpricedModels.includes(model)) {
+      this.usage.unpricedModels.push(model);
+    }
+  }
+
+  /**
+   * Snapshot of the session usage so far
+   */
+  getUsage(): SessionUsage {
+    return JSON.parse(JSON.stringify(this.usage));
+  }
+
+  /**
+   * Checks the session usage against config.budget
+   * @returns A description of the exceeded limit, or null if within budget
+   */
+  checkBudget(): string | null {
+    const budget = this.config?.budget;
+    if (!budget) {
+      return null;
+    }
+
+    if (budget.maxTokens !== undefined && this.usage.totalTokens >= budget.maxTokens) {
+      return `Token budget exceeded: ${this.usage.totalTokens} of ${budget.maxTokens} tokens used`;
+    }
+
+    if (budget.maxCostUsd !== undefined && this.usage.estimatedCostUsd >= budget.maxCostUsd) {
+      return `Cost budget exceeded: $${this.usage.estimatedCostUsd.toFixed(4)} of $${budget.maxCostUsd.toFixed(2)} spent`;
+    }
+
+    return null;
+  }
+}
+
+/**
+ * Formats session usage as a one-line summary
+ */
+export function formatUsage(usage: SessionUsage): string {
+  const cost = usage.unpricedModels.length > 0 && usage.estimatedCostUsd === 0
+    ? 'cost unknown'
+    : `~$${usage.estimatedCostUsd.toFixed(4)}`;
+
+  return `${usage.calls} AI calls, ${usage.inputTokens} input + ${usage.outputTokens} output tokens, ${cost}`;
+}